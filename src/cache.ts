@@ -0,0 +1,395 @@
+import type { Fetchable, MiddlewareFn } from './types';
+import { mergeHeaders } from './util';
+
+/**
+ * A stored response.
+ */
+export type CacheEntry = {
+  /** Response status code */
+  status: number;
+  /** Response status text */
+  statusText: string;
+  /** Response headers */
+  headers: [string, string][];
+  /** Response body */
+  body: ArrayBuffer;
+  /** Request header values selected by the response `Vary` header */
+  vary: Record<string, string | null>;
+  /** Time the response was stored (ms since epoch) */
+  storedAt: number;
+};
+
+/**
+ * Storage backend for cached responses.
+ *
+ * Implement this to back the cache with a custom storage layer
+ * (IndexedDB, Redis, the file system, etc.).
+ */
+export type CacheStore = {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+};
+
+/**
+ * Configuration for `withCache`.
+ */
+export type CacheOptions = {
+  /** Storage backend (default: an in-memory LRU store) */
+  store?: CacheStore;
+  /** Maximum number of entries of the default in-memory store (default: 100) */
+  maxEntries?: number;
+  /**
+   * Freshness lifetime in milliseconds for responses without `max-age` or
+   * `Expires` (default: 0, i.e. always revalidate)
+   */
+  ttl?: number;
+  /**
+   * How long in milliseconds a stale response may be served while it is
+   * revalidated in the background, when the response has no
+   * `stale-while-revalidate` directive (default: 0)
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * How long in milliseconds a stale response may be served when the origin
+   * fails, when the response has no `stale-if-error` directive (default: 0)
+   */
+  staleIfError?: number;
+  /**
+   * Called when a background revalidation received new content (not on
+   * `304 Not Modified`)
+   */
+  onRevalidate?: (res: Response, o: Fetchable) => void;
+};
+
+// Status codes that are cacheable by default (RFC 9110 Section 15.1)
+const cacheableStatusCodes = [
+  200, 203, 204, 206, 300, 301, 308, 404, 405, 410, 414, 501,
+];
+
+const nullBodyStatusCodes = [101, 204, 205, 304];
+
+/**
+ * Creates an in-memory LRU cache store.
+ *
+ * The least recently used entry is evicted once `maxEntries` is exceeded.
+ *
+ * @param maxEntries - Maximum number of entries (default: 100)
+ * @returns A cache store backed by a Map
+ *
+ * @example
+ * ```ts
+ * const store = createMemoryStore(500);
+ * client.pipe(use, withCache({ store }))
+ * ```
+ */
+export function createMemoryStore(maxEntries = 100): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Move to the end to mark as recently used
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Parses a `Cache-Control` header into its directives.
+ *
+ * Directive names are lowercased. Directives without a value map to `true`.
+ *
+ * @param value - The header value
+ * @returns A record of directives
+ *
+ * @example
+ * ```ts
+ * parseCacheControl('max-age=60, no-cache');
+ * // => { 'max-age': '60', 'no-cache': true }
+ * ```
+ */
+export function parseCacheControl(
+  value: string | null
+): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  if (!value) return directives;
+
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.split('=');
+    const key = name!.trim().toLowerCase();
+    if (!key) continue;
+    directives[key] = rest.length
+      ? rest.join('=').trim().replace(/^"|"$/g, '')
+      : true;
+  }
+  return directives;
+}
+
+function seconds(value: string | true | undefined): number | undefined {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return undefined;
+  return Number(value) * 1000;
+}
+
+/**
+ * Computes the freshness lifetime of a stored response in milliseconds.
+ */
+function freshnessLifetime(headers: Headers, ttl: number): number {
+  const cc = parseCacheControl(headers.get('Cache-Control'));
+  const maxAge = seconds(cc['max-age']);
+  if (maxAge !== undefined) return maxAge;
+
+  const expires = headers.get('Expires');
+  if (expires !== null) {
+    const date = Date.parse(headers.get('Date') || '');
+    const lifetime = Date.parse(expires) - (Number.isNaN(date) ? 0 : date);
+    return Number.isNaN(lifetime) ? 0 : Math.max(0, lifetime);
+  }
+
+  return ttl;
+}
+
+/**
+ * Computes the current age of a stored response in milliseconds.
+ */
+function currentAge(entry: CacheEntry, headers: Headers): number {
+  const age = seconds(headers.get('Age') ?? undefined) ?? 0;
+  return age + Date.now() - entry.storedAt;
+}
+
+function varyNames(headers: Headers): string[] {
+  return (headers.get('Vary') || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function matchesVary(entry: CacheEntry, requestHeaders: Headers): boolean {
+  return Object.entries(entry.vary).every(
+    ([name, value]) => requestHeaders.get(name) === value
+  );
+}
+
+function toResponse(entry: CacheEntry): Response {
+  return new Response(
+    nullBodyStatusCodes.includes(entry.status) ? null : entry.body.slice(0),
+    {
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+    }
+  );
+}
+
+function isStorable(res: Response, requestCC: Record<string, string | true>) {
+  const cc = parseCacheControl(res.headers.get('Cache-Control'));
+  return (
+    cacheableStatusCodes.includes(res.status) &&
+    !cc['no-store'] &&
+    !requestCC['no-store'] &&
+    !varyNames(res.headers).includes('*')
+  );
+}
+
+async function toEntry(
+  res: Response,
+  requestHeaders: Headers
+): Promise<CacheEntry> {
+  const vary: Record<string, string | null> = {};
+  for (const name of varyNames(res.headers)) {
+    vary[name] = requestHeaders.get(name);
+  }
+
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    headers: [...res.headers],
+    body: await res.clone().arrayBuffer(),
+    vary,
+    storedAt: Date.now(),
+  };
+}
+
+/**
+ * Creates an HTTP cache middleware (RFC 9111 private cache basics).
+ *
+ * - Caches `GET` responses with a cacheable status code
+ * - Serves fresh responses (`max-age`, `Expires`, or the `ttl` fallback)
+ *   without a network request
+ * - Revalidates stale and `no-cache` responses with `If-None-Match` /
+ *   `If-Modified-Since` and serves the cached body on `304 Not Modified`
+ * - Skips storage for `no-store` and respects `Vary`
+ * - Invalidates the cached `GET` after a successful unsafe request to the same URL
+ * - Within the `stale-while-revalidate` window, serves the stale response
+ *   immediately and revalidates in the background (RFC 5861)
+ * - Within the `stale-if-error` window, serves the stale response when the
+ *   origin fails with a network error or a 5xx status (RFC 5861)
+ *
+ * @param options - Cache configuration
+ * @returns A middleware function that adds caching
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createCache({ ttl: 60000 }))
+ * ```
+ */
+export function createCache(options: CacheOptions = {}): MiddlewareFn {
+  const {
+    maxEntries = 100,
+    store = createMemoryStore(maxEntries),
+    ttl = 0,
+    staleWhileRevalidate = 0,
+    staleIfError = 0,
+    onRevalidate,
+  } = options;
+
+  // Keys with a background revalidation in flight
+  const revalidating = new Set<string>();
+
+  return (f, o) => async (input, init) => {
+    const method = (init?.method || o.method || 'GET').toUpperCase();
+    const url = String(input);
+    const key = `GET ${url}`;
+
+    if (method !== 'GET') {
+      const res = await f(input, init);
+      if (method !== 'HEAD' && method !== 'OPTIONS' && res.ok) {
+        await store.delete(key);
+      }
+      return res;
+    }
+
+    const requestHeaders = new Headers(init?.headers);
+    const requestCC = parseCacheControl(requestHeaders.get('Cache-Control'));
+
+    const cached = requestCC['no-store'] ? undefined : await store.get(key);
+    const entry =
+      cached && matchesVary(cached, requestHeaders) ? cached : undefined;
+
+    if (!entry) {
+      const res = await f(input, init);
+      if (isStorable(res, requestCC)) {
+        await store.set(key, await toEntry(res, requestHeaders));
+      }
+      return res;
+    }
+
+    const headers = new Headers(entry.headers);
+    const cc = parseCacheControl(headers.get('Cache-Control'));
+    const mustRevalidate = !!(cc['no-cache'] || requestCC['no-cache']);
+    const staleness =
+      currentAge(entry, headers) - freshnessLifetime(headers, ttl);
+
+    if (!mustRevalidate && staleness < 0) return toResponse(entry);
+
+    // Resolves with the response to serve and whether the origin sent new
+    // content; 5xx responses replaced by the stale one are not stored
+    const revalidate = async (serveStaleOnError: boolean) => {
+      const etag = headers.get('ETag');
+      const lastModified = headers.get('Last-Modified');
+      const conditionalInit =
+        etag || lastModified
+          ? {
+              ...init,
+              headers: mergeHeaders(init?.headers, {
+                ...(etag ? { 'If-None-Match': etag } : {}),
+                ...(lastModified ? { 'If-Modified-Since': lastModified } : {}),
+              }),
+            }
+          : init;
+
+      const res = await f(input, conditionalInit);
+
+      if (res.status === 304) {
+        // Update the stored headers with those of the 304 response
+        const updatedHeaders = new Headers(entry.headers);
+        res.headers.forEach((value, name) => updatedHeaders.set(name, value));
+        const updated = {
+          ...entry,
+          headers: [...updatedHeaders],
+          storedAt: Date.now(),
+        };
+        await store.set(key, updated);
+        return { response: toResponse(updated), modified: false };
+      }
+
+      if (serveStaleOnError && res.status >= 500) {
+        await res.body?.cancel().catch(() => {});
+        return { response: toResponse(entry), modified: false };
+      }
+
+      if (!isStorable(res, requestCC)) return { response: res, modified: true };
+
+      const updated = await toEntry(res, requestHeaders);
+      await store.set(key, updated);
+      await res.body?.cancel().catch(() => {});
+      return { response: toResponse(updated), modified: true };
+    };
+
+    const swrWindow =
+      seconds(cc['stale-while-revalidate']) ?? staleWhileRevalidate;
+    if (!mustRevalidate && staleness < swrWindow) {
+      if (!revalidating.has(key)) {
+        revalidating.add(key);
+        revalidate(false)
+          .then(({ response, modified }) => {
+            if (modified && response.ok) onRevalidate?.(response, o);
+          })
+          .catch(() => {})
+          .finally(() => revalidating.delete(key));
+      }
+      return toResponse(entry);
+    }
+
+    const sieWindow = seconds(cc['stale-if-error']) ?? staleIfError;
+    const canServeStale = staleness < sieWindow;
+    try {
+      return (await revalidate(canServeStale)).response;
+    } catch (e) {
+      if (canServeStale) return toResponse(entry);
+      throw e;
+    }
+  };
+}
+
+/**
+ * Creates an HTTP cache middleware configuration.
+ *
+ * Name: 'builtin:cache'
+ * Position: outer of 'builtin:retry' (a cache hit skips retries),
+ * inner of 'builtin:data' (the raw response is stored before it is parsed)
+ *
+ * @param options - Cache configuration
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * // In-memory LRU cache with up to 500 entries
+ * client.pipe(use, withCache({ maxEntries: 500 }))
+ *
+ * // Custom storage layer
+ * client.pipe(use, withCache({ store: myStore, ttl: 30000 }))
+ * ```
+ */
+export function withCache(options: CacheOptions = {}) {
+  return {
+    name: 'builtin:cache' as const,
+    outer: 'builtin:retry' as const,
+    inner: 'builtin:data' as const,
+    middleware: createCache(options),
+  };
+}
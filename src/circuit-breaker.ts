@@ -0,0 +1,222 @@
+import { CircuitOpenError, HTTPError } from './error';
+import type { Fetchable, MiddlewareFn } from './types';
+
+/**
+ * State of a circuit.
+ *
+ * - `closed`: requests are sent and failures are counted
+ * - `open`: requests fail fast with a `CircuitOpenError`
+ * - `half-open`: a single probe request is sent to test the service
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Computes the circuit of a request.
+ */
+export type CircuitBreakerKey = (
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  o: Fetchable
+) => string;
+
+/**
+ * Outcome of a request passed to `isFailure`.
+ */
+export type CircuitBreakerOutcome = {
+  /** The response, if the server answered */
+  response?: Response;
+  /** The error, if the request rejected */
+  error?: unknown;
+  /** The fetchable configuration */
+  options: Fetchable;
+};
+
+/**
+ * A state transition passed to `onStateChange`.
+ */
+export type CircuitStateChange = {
+  /** The circuit that changed */
+  key: string;
+  /** The previous state */
+  from: CircuitState;
+  /** The new state */
+  to: CircuitState;
+};
+
+/**
+ * Configuration for `withCircuitBreaker`.
+ */
+export type CircuitBreakerOptions = {
+  /** Failures within `windowMs` that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Window failures are counted in, in milliseconds (default: 60000) */
+  windowMs?: number;
+  /** Time before an open circuit probes, in milliseconds (default: 30000) */
+  halfOpenAfter?: number;
+  /**
+   * Decides whether an outcome counts as a failure (default: network errors,
+   * timeouts and 5xx responses; aborts by the caller never count)
+   */
+  isFailure?: (outcome: CircuitBreakerOutcome) => boolean;
+  /**
+   * Which circuit a request belongs to: one for the whole client ('global'),
+   * one per host ('host'), or a custom key (default: 'host')
+   */
+  key?: 'global' | 'host' | CircuitBreakerKey;
+  /** Called whenever a circuit changes state */
+  onStateChange?: (change: CircuitStateChange) => void;
+};
+
+type Circuit = {
+  state: CircuitState;
+  failures: number[];
+  openedAt: number;
+  probing: boolean;
+};
+
+function defaultIsFailure({ response, error }: CircuitBreakerOutcome) {
+  if (response) return response.status >= 500;
+  if (error instanceof HTTPError && error.response) {
+    return error.status >= 500;
+  }
+  return true;
+}
+
+/**
+ * Creates a circuit breaker middleware.
+ *
+ * A closed circuit counts failed requests. Once `failureThreshold` failures
+ * occur within `windowMs`, the circuit opens and requests fail fast with a
+ * `CircuitOpenError` instead of reaching the service. After `halfOpenAfter`
+ * the circuit lets a single probe request through: a successful probe closes
+ * the circuit, a failed one opens it again.
+ *
+ * @param options - Circuit breaker configuration
+ * @returns A middleware function that short-circuits failing services
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createCircuitBreaker({ failureThreshold: 3 }))
+ * ```
+ */
+export function createCircuitBreaker(
+  options: CircuitBreakerOptions = {}
+): MiddlewareFn {
+  const {
+    failureThreshold = 5,
+    windowMs = 60000,
+    halfOpenAfter = 30000,
+    isFailure = defaultIsFailure,
+    key = 'host',
+    onStateChange,
+  } = options;
+
+  const getKey: CircuitBreakerKey =
+    typeof key === 'function'
+      ? key
+      : key === 'host'
+        ? (input) => new URL(String(input), 'http://localhost').host
+        : () => '';
+
+  const circuits = new Map<string, Circuit>();
+
+  const transition = (name: string, circuit: Circuit, to: CircuitState) => {
+    const from = circuit.state;
+    circuit.state = to;
+    circuit.probing = false;
+    if (to === 'open') circuit.openedAt = Date.now();
+    if (to === 'closed') circuit.failures = [];
+    onStateChange?.({ key: name, from, to });
+  };
+
+  const record = (name: string, circuit: Circuit, failed: boolean) => {
+    if (circuit.state === 'half-open') {
+      transition(name, circuit, failed ? 'open' : 'closed');
+      return;
+    }
+    if (!failed || circuit.state !== 'closed') return;
+
+    const now = Date.now();
+    circuit.failures = circuit.failures.filter((at) => now - at < windowMs);
+    circuit.failures.push(now);
+    if (circuit.failures.length >= failureThreshold) {
+      transition(name, circuit, 'open');
+    }
+  };
+
+  return (f, o) => async (input, init) => {
+    const name = getKey(input, init, o);
+    let circuit = circuits.get(name);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: [], openedAt: 0, probing: false };
+      circuits.set(name, circuit);
+    }
+
+    if (
+      circuit.state === 'open' &&
+      Date.now() - circuit.openedAt >= halfOpenAfter
+    ) {
+      transition(name, circuit, 'half-open');
+    }
+    if (
+      circuit.state === 'open' ||
+      (circuit.state === 'half-open' && circuit.probing)
+    ) {
+      const url = String(input);
+      const method = (o.method || 'GET').toUpperCase();
+      throw new CircuitOpenError(`Circuit is open: ${method} ${url}`, {
+        url,
+        method,
+        options: o,
+        key: name,
+        retryAfter: Math.max(0, circuit.openedAt + halfOpenAfter - Date.now()),
+      });
+    }
+    if (circuit.state === 'half-open') circuit.probing = true;
+
+    let response: Response;
+    try {
+      response = await f(input, init);
+    } catch (error) {
+      if (o.signal?.aborted && o.signal.reason === error) {
+        // The caller gave up; the service was not at fault
+        if (circuit.state === 'half-open') circuit.probing = false;
+      } else {
+        record(name, circuit, isFailure({ error, options: o }));
+      }
+      throw error;
+    }
+    record(name, circuit, isFailure({ response, options: o }));
+    return response;
+  };
+}
+
+/**
+ * Creates a circuit breaker middleware configuration.
+ *
+ * Name: 'builtin:circuit-breaker'
+ * Position: outer of 'builtin:retry' (a request counts as one failure only
+ * once all its attempts failed)
+ *
+ * @param options - Circuit breaker configuration
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * const client = create()
+ *   .pipe(use, withRetry(2))
+ *   .pipe(use, withCircuitBreaker({
+ *     failureThreshold: 5,
+ *     windowMs: 10000,
+ *     halfOpenAfter: 30000,
+ *     onStateChange: ({ key, to }) => alert(`${key} is ${to}`),
+ *   }));
+ * ```
+ */
+export function withCircuitBreaker(options: CircuitBreakerOptions = {}) {
+  return {
+    name: 'builtin:circuit-breaker' as const,
+    outer: 'builtin:retry' as const,
+    middleware: createCircuitBreaker(options),
+  };
+}
@@ -0,0 +1,197 @@
+import { prioritySymbol } from './constants';
+import type { Fetchable, MiddlewareFn } from './types';
+
+/**
+ * Computes the concurrency group of a request.
+ */
+export type ConcurrencyKey = (
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  o: Fetchable
+) => string;
+
+/**
+ * Configuration for `withConcurrency`.
+ */
+export type ConcurrencyOptions = {
+  /** Maximum number of requests in flight per group */
+  max: number;
+  /**
+   * Which group a request counts against: one for the whole client
+   * ('global'), one per host ('host'), or a custom key (default: 'global')
+   */
+  key?: 'global' | 'host' | ConcurrencyKey;
+  /** Computes the priority of a request (default: set by `priority`, or 0) */
+  priority?: (o: Fetchable) => number;
+};
+
+/**
+ * Request counts of a concurrency limiter.
+ */
+export type ConcurrencyStats = {
+  /** Number of requests in flight */
+  active: number;
+  /** Number of requests waiting for a slot */
+  pending: number;
+};
+
+/**
+ * A concurrency limiting middleware that reports its request counts.
+ */
+export type ConcurrencyLimiter = MiddlewareFn & {
+  /** Returns the counts of a group, or the totals of all groups */
+  stats(key?: string): ConcurrencyStats;
+};
+
+type Waiter = {
+  priority: number;
+  resolve: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+type Group = {
+  active: number;
+  queue: Waiter[];
+};
+
+/**
+ * Creates a concurrency limiting middleware.
+ *
+ * At most `max` requests of a group are in flight at a time; a slot is held
+ * until the response headers arrive or the request fails. Other requests wait
+ * in a queue ordered by priority, then by arrival. A queued request is
+ * removed from the queue and rejected with the abort reason as soon as its
+ * `signal` aborts.
+ *
+ * The slot is released before the body is read, so the bodies being
+ * downloaded are not limited: more than `max` of them, such as long-lived
+ * streams, may be open at a time.
+ *
+ * @param options - Concurrency configuration
+ * @returns A middleware function with a `stats` method
+ * @throws {RangeError} When `max` is not an integer of at least 1
+ *
+ * @example
+ * ```ts
+ * const limiter = createConcurrency({ max: 6 });
+ * client.pipe(use, limiter);
+ * limiter.stats(); // => { active: 6, pending: 120 }
+ * ```
+ */
+export function createConcurrency(
+  options: ConcurrencyOptions
+): ConcurrencyLimiter {
+  const {
+    max,
+    key = 'global',
+    priority = (o) => (o as any)[prioritySymbol] ?? 0,
+  } = options;
+  if (!Number.isInteger(max) || max < 1) {
+    throw new RangeError(`max must be an integer of at least 1, got ${max}`);
+  }
+
+  const getKey: ConcurrencyKey =
+    typeof key === 'function'
+      ? key
+      : key === 'host'
+        ? (input) => new URL(String(input), 'http://localhost').host
+        : () => '';
+
+  const groups = new Map<string, Group>();
+
+  const acquire = (group: Group, rank: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      if (group.active < max) {
+        group.active++;
+        return resolve();
+      }
+
+      const waiter: Waiter = { priority: rank, resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          group.queue.splice(group.queue.indexOf(waiter), 1);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      // Insert after all waiters with the same or a higher priority
+      const index = group.queue.findIndex((w) => w.priority < rank);
+      group.queue.splice(index === -1 ? group.queue.length : index, 0, waiter);
+    });
+
+  const release = (name: string, group: Group) => {
+    const waiter = group.queue.shift();
+    if (waiter) {
+      waiter.signal?.removeEventListener('abort', waiter.onAbort!);
+      waiter.resolve();
+      return;
+    }
+    group.active--;
+    if (!group.active) groups.delete(name);
+  };
+
+  const middleware: MiddlewareFn = (f, o) => async (input, init) => {
+    const name = getKey(input, init, o);
+    let group = groups.get(name);
+    if (!group) {
+      group = { active: 0, queue: [] };
+      groups.set(name, group);
+    }
+
+    await acquire(group, priority(o), init?.signal ?? o.signal ?? undefined);
+    try {
+      return await f(input, init);
+    } finally {
+      release(name, group);
+    }
+  };
+
+  return Object.assign(middleware, {
+    stats(name?: string): ConcurrencyStats {
+      const selected =
+        name === undefined ? [...groups.values()] : [groups.get(name)];
+      return selected.reduce<ConcurrencyStats>(
+        (stats, group) => ({
+          active: stats.active + (group?.active ?? 0),
+          pending: stats.pending + (group?.queue.length ?? 0),
+        }),
+        { active: 0, pending: 0 }
+      );
+    },
+  });
+}
+
+/**
+ * Creates a concurrency limiting middleware configuration.
+ *
+ * Name: 'builtin:concurrency'
+ * Position: inner of 'builtin:retry' (no slot is held while waiting between
+ * attempts), outer of 'builtin:rate-limit'
+ *
+ * @param options - Concurrency configuration
+ * @returns A middleware configuration with proper naming and positioning,
+ * and a `stats` method
+ *
+ * @example
+ * ```ts
+ * const concurrency = withConcurrency({ max: 4, key: 'host' });
+ * const client = create().pipe(use, concurrency);
+ *
+ * await Promise.all(ids.map((id) =>
+ *   client.pipe(url, '/items/:id').pipe(params, { id }).pipe(fetchJSON)
+ * ));
+ * concurrency.stats('api.example.com'); // => { active: 0, pending: 0 }
+ * ```
+ */
+export function withConcurrency(options: ConcurrencyOptions) {
+  const middleware = createConcurrency(options);
+  return {
+    name: 'builtin:concurrency' as const,
+    inner: 'builtin:retry' as const,
+    outer: 'builtin:rate-limit' as const,
+    middleware,
+    stats: middleware.stats,
+  };
+}
@@ -1,4 +1,11 @@
-import { createRetry, normalizeMiddleware } from './middleware';
+import {
+  createRetry,
+  createRetryPolicy,
+  normalizeMiddleware,
+  withAttemptTimeout,
+  withTimeout,
+} from './middleware';
+import type { RetryPolicy } from './middleware';
 import type {
   AppendQueryType,
   Fetchable,
@@ -9,12 +16,31 @@ import type {
   MW,
   InferMiddlewareName,
   MapMiddlewares,
+  ObjectToQueryType,
   Options,
+  PathParams,
+  Prettify,
+  QueryObject,
+  QueryObjectOptions,
   QueryType,
   SetQueryType,
+  StandardSchemaV1,
   TypedURLSearchParams,
 } from './types';
-import { dataSymbol, readDataSymbol } from './constants';
+import {
+  dataSymbol,
+  httpErrorSymbol,
+  prioritySymbol,
+  readDataSymbol,
+  skipDedupeSymbol,
+  validateSymbol,
+} from './constants';
+import {
+  createHTTPError,
+  createResponseValidationError,
+  toHTTPError,
+} from './error';
+import { buildUrl, serializeQuery } from './util';
 
 /**
  * Sets the HTTP method for the request.
@@ -80,6 +106,47 @@ export function appendUrl<
   return url(o, `${o.url}${path}`);
 }
 
+/**
+ * Sets the values of `:name` path parameters in the URL template.
+ *
+ * Values are percent-encoded and substituted in `toFetchParams`.
+ * The parameter names are extracted from the `url` type, so executors like
+ * `fetch` fail to compile when a parameter is missing.
+ *
+ * @param o - The options object to modify
+ * @param params - The parameter values (merged with existing params)
+ * @returns A new options object with the path params set
+ *
+ * @example
+ * ```ts
+ * client
+ *   .pipe(url, '/users/:userId/posts/:postId')
+ *   .pipe(params, { userId: 1, postId: 'a/b' })
+ *   .pipe(fetch);
+ * // => /users/1/posts/a%2Fb
+ *
+ * client.pipe(url, '/users/:userId').pipe(fetch); // Type error: missing params
+ * ```
+ */
+export function params<T extends Options, const P extends PathParams>(
+  o: T,
+  params: P
+): Omit<T, 'params'> & {
+  params: Prettify<Omit<InferPathParams<T>, keyof P> & P>;
+} {
+  return {
+    ...o,
+    params: { ...o.params, ...params },
+  } as any;
+}
+
+/**
+ * Infer existing path params type from Options.
+ */
+type InferPathParams<T> = T extends { params: infer P extends PathParams }
+  ? P
+  : {};
+
 /**
  * Sets the base URL prefix for all requests.
  *
@@ -108,7 +175,7 @@ export type QueryInput = ConstructorParameters<typeof URLSearchParams>[0];
  * Sets query parameters, replacing any existing searchParams.
  *
  * Accepts a string or URLSearchParams. For object serialization,
- * use your preferred library (e.g., `qs`, `query-string`) before calling.
+ * use `queryObject` or your preferred library (e.g., `qs`, `query-string`).
  * The searchParams will be appended to the URL in `toFetchParams`.
  *
  * @param o - The options object to modify
@@ -142,6 +209,55 @@ export function query<T extends Options>(
   };
 }
 
+/**
+ * Sets query parameters from an object, replacing any existing searchParams.
+ *
+ * Handles numbers, booleans, Dates, arrays and nested objects
+ * (see `serializeQuery` for the formats). For flat objects serialized with
+ * the default options, the query type is tracked for IDE hints.
+ *
+ * @param o - The options object to modify
+ * @param obj - The object to serialize
+ * @param options - Serialization options
+ * @returns A new options object with searchParams set
+ *
+ * @example
+ * ```ts
+ * // TypeScript tracks { page: '1', tags: ('a' | 'b')[] }
+ * client.pipe(url, '/posts').pipe(queryObject, { page: 1, tags: ['a', 'b'] })
+ * // => ?page=1&tags=a&tags=b
+ *
+ * client.pipe(queryObject, { tags: ['a', 'b'], filter: { active: true } }, {
+ *   arrayFormat: 'brackets',
+ *   nested: 'dots',
+ * })
+ * // => ?tags[]=a&tags[]=b&filter.active=true
+ * ```
+ */
+export function queryObject<T extends Options, const Q extends QueryObject>(
+  o: T,
+  obj: Q
+): Omit<T, 'searchParams'> & {
+  searchParams: TypedURLSearchParams<ObjectToQueryType<Q>>;
+};
+export function queryObject<T extends Options>(
+  o: T,
+  obj: QueryObject,
+  options: QueryObjectOptions
+): Omit<T, 'searchParams'> & {
+  searchParams: TypedURLSearchParams<QueryType>;
+};
+export function queryObject<T extends Options>(
+  o: T,
+  obj: QueryObject,
+  options?: QueryObjectOptions
+) {
+  return {
+    ...o,
+    searchParams: new URLSearchParams(serializeQuery(obj, options)),
+  };
+}
+
 /**
  * Merges query parameters with existing searchParams.
  *
@@ -294,25 +410,48 @@ export function signal<T extends Options>(
 }
 
 /**
- * Sets a timeout for the request using AbortSignal.timeout().
+ * Timeout limits for `timeout`.
+ */
+export type TimeoutOptions = {
+  /** Per-attempt timeout in milliseconds (inside 'builtin:retry') */
+  attempt?: number;
+  /** Total deadline in milliseconds (outside 'builtin:retry') */
+  total?: number;
+};
+
+/**
+ * Adds a total deadline and/or a per-attempt timeout to the request.
  *
- * This is a convenience wrapper around `signal` with `AbortSignal.timeout()`.
+ * Timers start when the request is made, and they are combined with the
+ * signal set via `signal`, so the caller can still cancel the request.
+ * A timed out request rejects with a `TimeoutError` whose `limit` reports
+ * which timeout fired.
  *
  * @param o - The options object to modify
- * @param ms - The timeout in milliseconds
- * @returns A new options object with the timeout signal set
+ * @param ms - The total deadline in milliseconds, or the timeout limits
+ * @returns A new options object with the timeout middlewares added
  *
  * @example
  * ```ts
  * // Timeout after 5 seconds
  * client.pipe(timeout, 5000)
+ *
+ * // 2 seconds per attempt, 10 seconds overall
+ * client.pipe(retry, 3).pipe(timeout, { attempt: 2000, total: 10000 })
  * ```
  */
 export function timeout<T extends Options>(
   o: T,
-  ms: number
-): T & { signal: AbortSignal } {
-  return signal(o, AbortSignal.timeout(ms));
+  ms: number | TimeoutOptions
+): T & { middlewares: MiddlewareEntry[] } {
+  const { attempt, total } = typeof ms === 'number' ? { total: ms } : ms;
+
+  let options: Options = o;
+  if (total !== undefined) options = use(options, withTimeout(total));
+  if (attempt !== undefined) {
+    options = use(options, withAttemptTimeout(attempt));
+  }
+  return options as T & { middlewares: MiddlewareEntry[] };
 }
 
 /**
@@ -475,6 +614,159 @@ export function jsonBody<T extends Options>(o: T, data: unknown) {
   return body(contentType(o, 'application/json'), JSON.stringify(data));
 }
 
+/**
+ * Removes a header regardless of the casing of its name.
+ */
+function omitHeader<T extends Options>(o: T, name: string): T {
+  if (!o.headers) return o;
+  const lower = name.toLowerCase();
+  return {
+    ...o,
+    headers: Object.fromEntries(
+      Object.entries(o.headers).filter(([key]) => key.toLowerCase() !== lower)
+    ),
+  };
+}
+
+/**
+ * Sets the request body as URL-encoded form data and sets Content-Type to
+ * application/x-www-form-urlencoded.
+ *
+ * Objects are serialized like `queryObject` (see `serializeQuery`).
+ *
+ * @param o - The options object to modify
+ * @param data - The form fields
+ * @param options - Serialization options for arrays and nested objects
+ * @returns A new options object with the form body and Content-Type set
+ *
+ * @example
+ * ```ts
+ * client.pipe(formBody, { username: 'john', remember: true })
+ * // body: 'username=john&remember=true'
+ * ```
+ */
+export function formBody<T extends Options>(
+  o: T,
+  data: QueryObject | URLSearchParams,
+  options?: QueryObjectOptions
+) {
+  const params =
+    data instanceof URLSearchParams
+      ? data
+      : new URLSearchParams(serializeQuery(data, options));
+  return body(
+    contentType(
+      omitHeader(o, 'Content-Type'),
+      'application/x-www-form-urlencoded'
+    ),
+    params.toString()
+  );
+}
+
+/**
+ * Value of a multipart form field.
+ */
+export type MultipartValue = string | number | boolean | Blob;
+
+/**
+ * Sets the request body as multipart/form-data.
+ *
+ * Builds a `FormData` from the object; array values append one part per item
+ * and `File` values keep their file name. Any existing Content-Type header is
+ * removed so the runtime can set it with the generated boundary.
+ *
+ * @param o - The options object to modify
+ * @param data - The form fields, or an existing FormData
+ * @returns A new options object with the FormData body set
+ *
+ * @example
+ * ```ts
+ * client.pipe(multipartBody, {
+ *   title: 'Report',
+ *   file: new File([content], 'report.pdf', { type: 'application/pdf' }),
+ *   tags: ['a', 'b'],
+ * })
+ * ```
+ */
+export function multipartBody<T extends Options>(
+  o: T,
+  data: Record<string, MultipartValue | MultipartValue[]> | FormData
+) {
+  let form = data;
+  if (!(form instanceof FormData)) {
+    form = new FormData();
+    for (const [name, value] of Object.entries(data)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        form.append(name, item instanceof Blob ? item : String(item));
+      }
+    }
+  }
+  return {
+    ...omitHeader(o, 'Content-Type'),
+    body: form,
+  };
+}
+
+/**
+ * Binary request body types.
+ */
+export type BinaryBody =
+  | ArrayBuffer
+  | ArrayBufferView<ArrayBuffer>
+  | Blob
+  | ReadableStream<Uint8Array>;
+
+/**
+ * Sets the request body as binary data.
+ *
+ * - Content-Type is `type`, else the Blob's type, else application/octet-stream
+ * - Content-Length is set when the size is known (not for streams)
+ * - Streams set `duplex: 'half'`, as required by fetch for streaming uploads
+ *
+ * @param o - The options object to modify
+ * @param data - The binary data
+ * @param type - The content MIME type
+ * @returns A new options object with the binary body and headers set
+ *
+ * @example
+ * ```ts
+ * client.pipe(binaryBody, new Uint8Array([1, 2, 3]))
+ *
+ * client.pipe(binaryBody, file.stream(), 'video/mp4')
+ * ```
+ */
+export function binaryBody<T extends Options>(
+  o: T,
+  data: BinaryBody,
+  type?: string
+) {
+  const mime =
+    type ||
+    (data instanceof Blob && data.type) ||
+    'application/octet-stream';
+
+  let options: Options = contentType(
+    omitHeader(omitHeader(o, 'Content-Type'), 'Content-Length'),
+    mime
+  );
+  if (data instanceof ReadableStream) {
+    options = { ...options, duplex: 'half' };
+  } else {
+    const size =
+      data instanceof Blob ? data.size : (data as ArrayBuffer).byteLength;
+    options = header(options, 'Content-Length', String(size));
+  }
+
+  return {
+    ...options,
+    body: data,
+  } as Omit<T, 'headers' | 'body'> & {
+    headers: Record<string, string>;
+    body: BinaryBody;
+    duplex?: 'half';
+  };
+}
+
 /**
  * Sets the middleware array, replacing any existing middlewares.
  *
@@ -560,18 +852,74 @@ export function use<T extends Options, const M extends MiddlewareInput>(
  * Retries failed requests up to the specified number of times.
  * Uses exponential backoff with jitter (initial: 1s, max: 10s, multiplier: 2).
  *
+ * Pass a `RetryPolicy` to also retry on status codes, restrict the retried
+ * methods, tune the backoff and honor `Retry-After` (see `createRetryPolicy`).
+ *
  * @param o - The options object to modify
- * @param maxRetries - Maximum number of retry attempts
+ * @param maxRetries - Maximum number of retry attempts, or a retry policy
  * @returns A new options object with retry middleware added
  *
  * @example
  * ```ts
  * // Retry up to 3 times on failure
  * client.pipe(retry, 3)
+ *
+ * // Retry 429/503 responses of idempotent requests
+ * client.pipe(retry, { retries: 3, statusCodes: [429, 503] })
  * ```
  */
-export function retry<T extends Options>(o: T, maxRetries: number) {
-  return use(o, createRetry(maxRetries));
+export function retry<T extends Options>(
+  o: T,
+  maxRetries: number | RetryPolicy
+) {
+  return use(
+    o,
+    typeof maxRetries === 'number'
+      ? createRetry(maxRetries)
+      : createRetryPolicy(maxRetries)
+  );
+}
+
+/**
+ * Opts the request out of deduplication by `withDedupe`.
+ *
+ * @param o - The options object to modify
+ * @returns A new options object that is never deduplicated
+ *
+ * @example
+ * ```ts
+ * // Always hit the network, even if an identical request is in flight
+ * client.pipe(url, '/users').pipe(skipDedupe).pipe(fetchJSON)
+ * ```
+ */
+export function skipDedupe<T extends Options>(o: T) {
+  return {
+    ...o,
+    [skipDedupeSymbol]: true,
+  };
+}
+
+/**
+ * Sets the priority of the request in the `withConcurrency` queue.
+ *
+ * Waiting requests with a higher priority are sent first; requests with the
+ * same priority are sent in order. The default priority is 0.
+ *
+ * @param o - The options object to modify
+ * @param value - The priority
+ * @returns A new options object with the priority set
+ *
+ * @example
+ * ```ts
+ * // Jump ahead of queued background requests
+ * client.pipe(url, '/me').pipe(priority, 10).pipe(fetchJSON)
+ * ```
+ */
+export function priority<T extends Options>(o: T, value: number) {
+  return {
+    ...o,
+    [prioritySymbol]: value,
+  };
 }
 
 /**
@@ -632,12 +980,82 @@ export function checkError<T extends Options>(
   });
 }
 
+/**
+ * Throws typed `HTTPError`s for unsuccessful responses and failed requests.
+ *
+ * - Responses matching `isError` (default: `!res.ok`) reject with a
+ *   `ClientError` (4xx), `ServerError` (5xx) or `HTTPError`
+ * - Timeouts reject with a `TimeoutError`
+ * - Network failures reject with a `NetworkError`
+ *
+ * Data readers (`data`, `json`, `text`, `blob`, and therefore `fetchData`
+ * and `fetchJSON`) check the status before parsing the body, so an error page
+ * is never parsed as data.
+ *
+ * Name: 'builtin:http-errors'
+ * Position: outer of 'builtin:retry' (only the final attempt is converted)
+ *
+ * @param o - The options object to modify
+ * @param isError - Predicate deciding which responses are errors
+ * @returns A new options object with HTTP error handling added
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.pipe(url, '/users').pipe(throwHttpErrors).pipe(fetchJSON);
+ * } catch (e) {
+ *   if (e instanceof ClientError && e.status === 404) {
+ *     // ...
+ *   }
+ * }
+ *
+ * // Treat only 5xx as errors
+ * client.pipe(throwHttpErrors, (res) => res.status >= 500)
+ * ```
+ */
+export function throwHttpErrors<T extends Options>(
+  o: T,
+  isError: (res: Response) => boolean = (res) => !res.ok
+) {
+  const options = {
+    ...o,
+    [httpErrorSymbol]: isError,
+  };
+  return use(options, {
+    name: 'builtin:http-errors',
+    outer: 'builtin:retry',
+    middleware: ((f, finalOptions) =>
+      (input, init) =>
+        f(input, init).then(
+          (res) => {
+            if (!(dataSymbol in res) && isError(res)) {
+              const finalUrl = res.url || String(input);
+              throw createHTTPError(res, finalUrl, finalOptions);
+            }
+            return res;
+          },
+          (e) => {
+            throw toHTTPError(e, String(input), finalOptions);
+          }
+        )) as MiddlewareFn,
+  });
+}
+
 /**
  * Adds a response data reader middleware.
  *
  * Reads and stores response data using the provided reader function.
  * The data can be retrieved later using `getData()`.
  *
+ * The last reader set (e.g. via `json` or `fetchJSON`) reads the response,
+ * innermost of the middlewares added so far. The parsed data is carried by a
+ * copy of the Response, so middlewares wrapping the reader still see its
+ * status and headers while the original Response is left untouched. When a
+ * schema is set via `validate`, the parsed data is validated before it is
+ * attached.
+ *
+ * Name: 'builtin:data'
+ *
  * @param o - The options object to modify
  * @param reader - Function to read data from the response
  * @returns A new options object with the data reader middleware added
@@ -654,20 +1072,69 @@ export function checkError<T extends Options>(
 export function data<T extends Options>(
   o: T,
   reader: (res: Response) => unknown
-) {
+): Omit<T, 'middlewares'> & { middlewares: MiddlewareEntry[] } {
   const options = {
     ...o,
     [readDataSymbol]: reader,
   };
-  return mapResponse(options, async (res, finalOptions) => {
-    if (dataSymbol in res) return res;
-
-    const currentReader = (finalOptions as any)[readDataSymbol] as (
-      res: Response
-    ) => unknown;
-    const data = await currentReader(res);
-    return { ...res, [dataSymbol]: data };
+  const read: MiddlewareFn =
+    (f, finalOptions) =>
+    (...params: Parameters<typeof f>) =>
+      f(...params).then(async (res) => {
+        if (dataSymbol in res) return res;
+
+        const isError = (finalOptions as any)[httpErrorSymbol] as
+          | ((res: Response) => boolean)
+          | undefined;
+        if (isError?.(res)) {
+          const finalUrl = res.url || buildUrl(finalOptions);
+          throw createHTTPError(res, finalUrl, finalOptions);
+        }
+
+        const currentReader = (finalOptions as any)[readDataSymbol] as (
+          res: Response
+        ) => unknown;
+        let data = await currentReader(res);
+
+        const schema = (finalOptions as any)[validateSymbol] as
+          | StandardSchemaV1
+          | undefined;
+        if (schema) {
+          const result = await schema['~standard'].validate(data);
+          if (result.issues) {
+            const finalUrl = res.url || buildUrl(finalOptions);
+            throw createResponseValidationError(
+              res,
+              finalUrl,
+              finalOptions,
+              result.issues,
+              data
+            );
+          }
+          data = result.value;
+        }
+
+        return withData(res, data);
+      });
+  // Only the innermost reader reads, so one entry is kept
+  return use(
+    {
+      ...options,
+      middlewares: o.middlewares?.filter((m) => m.name !== 'builtin:data'),
+    },
+    { name: 'builtin:data', middleware: read }
+  );
+}
+
+// Copies a response to carry its parsed data; a read body is left out
+function withData(res: Response, data: unknown): Response {
+  const copy = new Response(res.bodyUsed ? null : res.body, res);
+  Object.defineProperties(copy, {
+    url: { value: res.url },
+    redirected: { value: res.redirected },
+    type: { value: res.type },
   });
+  return Object.assign(copy, { [dataSymbol]: data });
 }
 
 /**
@@ -724,3 +1191,38 @@ export function text<T extends Options>(o: T) {
 export function blob<T extends Options>(o: T) {
   return data(o, (res) => res.blob());
 }
+
+/**
+ * Validates the response data with a Standard Schema validator.
+ *
+ * Accepts any Standard Schema compatible validator (zod, valibot, arktype,
+ * etc.). The data reader (`data`, `json`, `text`, `blob`, and therefore
+ * `fetchData` and `fetchJSON`) runs the schema on the parsed data and
+ * rejects with a `ResponseValidationError` when it reports issues. Otherwise
+ * the validator's output replaces the parsed data, and its type is inferred
+ * by `fetchData` and `fetchJSON`.
+ *
+ * @param o - The options object to modify
+ * @param schema - The Standard Schema validator
+ * @returns A new options object with the schema set
+ *
+ * @example
+ * ```ts
+ * const User = z.object({ id: z.number(), name: z.string() });
+ *
+ * // user: { id: number; name: string }
+ * const user = await client
+ *   .pipe(url, '/users/1')
+ *   .pipe(validate, User)
+ *   .pipe(fetchJSON);
+ * ```
+ */
+export function validate<T extends Options, S extends StandardSchemaV1>(
+  o: T,
+  schema: S
+): Omit<T, typeof validateSymbol> & { [validateSymbol]: S } {
+  return {
+    ...o,
+    [validateSymbol]: schema,
+  };
+}
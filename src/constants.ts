@@ -1,3 +1,14 @@
 export const dataSymbol = Symbol('data');
 export const readDataSymbol = Symbol('readData');
 export const notRetryErrorSymbol = Symbol('notRetryError');
+export const httpErrorSymbol = Symbol('httpError');
+export const skipDedupeSymbol = Symbol('skipDedupe');
+export const validateSymbol = Symbol('validate');
+export const sseSymbol = Symbol('sse');
+export const streamReaderSymbol = Symbol('streamReader');
+export const prioritySymbol = Symbol('priority');
+export const redirectsSymbol = Symbol('redirects');
+export const hooksSymbol = Symbol('hooks');
+export const retryContextSymbol = Symbol('retryContext');
+export const strippedHeadersSymbol = Symbol('strippedHeaders');
+export const fetchErrorSymbol = Symbol('fetchError');
@@ -0,0 +1,321 @@
+import { createRedirects } from './redirect';
+import type { MiddlewareFn } from './types';
+import { mergeHeaders } from './util';
+
+/**
+ * A cookie stored in a cookie jar.
+ */
+export type Cookie = {
+  /** The cookie name */
+  name: string;
+  /** The cookie value */
+  value: string;
+  /** The lowercased domain, without a leading dot */
+  domain: string;
+  /** Sent to `domain` only, not to its subdomains (no `Domain` attribute) */
+  hostOnly: boolean;
+  /** The path the cookie is scoped to */
+  path: string;
+  /** Expiry time (ms since epoch); session cookies have none */
+  expires?: number;
+  /** Only sent over secure connections */
+  secure: boolean;
+  /** Hidden from scripts in browsers; kept for persistence only */
+  httpOnly: boolean;
+  /** The `SameSite` attribute, if valid */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  /** Time the cookie was first stored (ms since epoch) */
+  createdAt: number;
+};
+
+/**
+ * Storage for cookies.
+ *
+ * Implement this to back `withCookieJar` with a custom storage layer.
+ */
+export type CookieJar = {
+  /** Returns the `Cookie` header value for a request URL, if any matches */
+  getCookieHeader(
+    url: string
+  ): string | undefined | Promise<string | undefined>;
+  /** Stores the cookie of a `Set-Cookie` header received from a URL */
+  setCookie(setCookie: string, url: string): void | Promise<void>;
+};
+
+/**
+ * An in-memory cookie jar that can be serialized.
+ */
+export type MemoryCookieJar = CookieJar & {
+  /** Returns the unexpired cookies */
+  cookies(): Cookie[];
+  /** Removes all cookies */
+  clear(): void;
+  /** Returns the unexpired cookies, so the jar can be `JSON.stringify`ed */
+  toJSON(): Cookie[];
+};
+
+function isIpAddress(host: string) {
+  return /^\d+\.\d+\.\d+\.\d+$/.test(host) || host.startsWith('[');
+}
+
+function isSecure(protocol: string) {
+  return protocol === 'https:' || protocol === 'wss:';
+}
+
+// RFC 6265 section 5.1.3
+function domainMatch(host: string, domain: string) {
+  return (
+    host === domain || (host.endsWith(`.${domain}`) && !isIpAddress(host))
+  );
+}
+
+// RFC 6265 section 5.1.4
+function defaultPath(pathname: string) {
+  const index = pathname.lastIndexOf('/');
+  return index <= 0 ? '/' : pathname.slice(0, index);
+}
+
+function pathMatch(pathname: string, path: string) {
+  return (
+    pathname === path ||
+    (pathname.startsWith(path) &&
+      (path.endsWith('/') || pathname[path.length] === '/'))
+  );
+}
+
+/**
+ * Parses a `Set-Cookie` header received from a URL (RFC 6265).
+ *
+ * Returns undefined for cookies a user agent must ignore: cookies without a
+ * name, with a `Domain` the URL is not part of, `Secure` cookies received over
+ * an insecure connection and `SameSite=None` cookies without `Secure`.
+ * Public suffixes are not known, so a `Domain` must contain a dot unless it
+ * is the host itself.
+ *
+ * @param value - The header value
+ * @param url - The URL the header was received from
+ * @returns The cookie, or undefined if it must be ignored
+ *
+ * @example
+ * ```ts
+ * parseSetCookie('sid=abc; Path=/; HttpOnly', 'https://example.com/login');
+ * // => { name: 'sid', value: 'abc', domain: 'example.com', path: '/', ... }
+ * ```
+ */
+export function parseSetCookie(value: string, url: string): Cookie | undefined {
+  const [pair = '', ...attributes] = value.split(';');
+  const index = pair.indexOf('=');
+  const name = pair.slice(0, index).trim();
+  if (index < 0 || !name) return undefined;
+
+  const { protocol, hostname, pathname } = new URL(url);
+  const host = hostname.toLowerCase();
+  const cookie: Cookie = {
+    name,
+    value: pair.slice(index + 1).trim(),
+    domain: host,
+    hostOnly: true,
+    path: defaultPath(pathname),
+    secure: false,
+    httpOnly: false,
+    createdAt: Date.now(),
+  };
+
+  let maxAge: number | undefined;
+  for (const attribute of attributes) {
+    const [key = '', ...rest] = attribute.split('=');
+    const attributeValue = rest.join('=').trim();
+    switch (key.trim().toLowerCase()) {
+      case 'expires': {
+        const time = Date.parse(attributeValue);
+        if (!Number.isNaN(time)) cookie.expires = time;
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attributeValue)) maxAge = Number(attributeValue);
+        break;
+      case 'domain': {
+        const domain = attributeValue.replace(/^\./, '').toLowerCase();
+        if (domain) {
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+        }
+        break;
+      }
+      case 'path':
+        cookie.path = attributeValue.startsWith('/')
+          ? attributeValue
+          : defaultPath(pathname);
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'samesite':
+        cookie.sameSite = (['Strict', 'Lax', 'None'] as const).find(
+          (s) => s.toLowerCase() === attributeValue.toLowerCase()
+        );
+        break;
+    }
+  }
+  // Max-Age takes precedence over Expires
+  if (maxAge !== undefined) {
+    cookie.expires = maxAge <= 0 ? 0 : Date.now() + maxAge * 1000;
+  }
+
+  if (
+    !domainMatch(host, cookie.domain) ||
+    (!cookie.domain.includes('.') && cookie.domain !== host) ||
+    (cookie.secure && !isSecure(protocol)) ||
+    (cookie.sameSite === 'None' && !cookie.secure)
+  ) {
+    return undefined;
+  }
+  return cookie;
+}
+
+/**
+ * Creates an in-memory cookie jar.
+ *
+ * Cookies are replaced by name, domain and path, and expired cookies are
+ * dropped. The jar serializes to its cookies, so it can be persisted with
+ * `JSON.stringify` and restored by passing the parsed cookies back in.
+ *
+ * @param cookies - Cookies to restore (default: none)
+ * @returns A cookie jar backed by a Map
+ *
+ * @example
+ * ```ts
+ * const jar = createMemoryCookieJar(JSON.parse(saved));
+ * client.pipe(use, withCookieJar(jar))
+ * // Later
+ * saved = JSON.stringify(jar);
+ * ```
+ */
+export function createMemoryCookieJar(cookies: Cookie[] = []): MemoryCookieJar {
+  const store = new Map<string, Cookie>();
+  const keyOf = (cookie: Cookie) =>
+    `${cookie.domain};${cookie.path};${cookie.name}`;
+  const isLive = (cookie: Cookie) =>
+    cookie.expires === undefined || cookie.expires > Date.now();
+
+  const live = () => {
+    for (const [key, cookie] of store) {
+      if (!isLive(cookie)) store.delete(key);
+    }
+    return [...store.values()];
+  };
+
+  for (const cookie of cookies) {
+    if (isLive(cookie)) store.set(keyOf(cookie), { ...cookie });
+  }
+
+  return {
+    getCookieHeader(url) {
+      const { protocol, hostname, pathname } = new URL(url);
+      const host = hostname.toLowerCase();
+      const matching = live()
+        .filter(
+          (cookie) =>
+            (cookie.hostOnly
+              ? host === cookie.domain
+              : domainMatch(host, cookie.domain)) &&
+            pathMatch(pathname, cookie.path) &&
+            (!cookie.secure || isSecure(protocol))
+        )
+        // Longer paths first, then older cookies first (RFC 6265 5.4)
+        .sort(
+          (a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt
+        );
+      return matching.length
+        ? matching.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ')
+        : undefined;
+    },
+    setCookie(setCookie, url) {
+      const cookie = parseSetCookie(setCookie, url);
+      if (!cookie) return;
+      const key = keyOf(cookie);
+      const existing = store.get(key);
+      if (existing) cookie.createdAt = existing.createdAt;
+      store.delete(key);
+      if (isLive(cookie)) store.set(key, cookie);
+    },
+    cookies() {
+      return live().map((cookie) => ({ ...cookie }));
+    },
+    clear() {
+      store.clear();
+    },
+    toJSON() {
+      return this.cookies();
+    },
+  };
+}
+
+/**
+ * Creates a cookie jar middleware.
+ *
+ * Sends the matching cookies of the jar in the `Cookie` header (after any
+ * `Cookie` header of the request) and stores the `Set-Cookie` headers of the
+ * response. Runtimes follow redirects without exposing the intermediate
+ * responses, so unless the request sets its own `redirect` mode (as
+ * `withRedirects` does), redirects are followed here like a browser does,
+ * storing and sending cookies on each hop.
+ *
+ * @param jar - The cookie storage
+ * @returns A middleware function that sends and stores cookies
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createCookieJar(createMemoryCookieJar()))
+ * ```
+ */
+export function createCookieJar(jar: CookieJar): MiddlewareFn {
+  // Browsers follow https to http redirects too
+  const redirects = createRedirects({ allowProtocolDowngrade: true });
+
+  return (f, o) => {
+    const send: typeof fetch = async (input, init) => {
+      const url = String(input);
+      const cookie = await jar.getCookieHeader(url);
+      const existing = new Headers(init?.headers).get('Cookie');
+      const headers = mergeHeaders(
+        init?.headers,
+        cookie ? { Cookie: existing ? `${existing}; ${cookie}` : cookie } : {}
+      );
+      const res = await f(url, { ...init, headers });
+      for (const setCookie of res.headers.getSetCookie()) {
+        await jar.setCookie(setCookie, url);
+      }
+      return res;
+    };
+    return redirects(send, o);
+  };
+}
+
+/**
+ * Creates a cookie jar middleware configuration.
+ *
+ * Name: 'builtin:cookie-jar'
+ * Position: inner of 'builtin:retry' (each attempt sends the latest cookies)
+ *
+ * @param jar - The cookie storage
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * const jar = createMemoryCookieJar();
+ * const session = create({ baseUrl }).pipe(use, withCookieJar(jar));
+ * await session.pipe(url, '/login').pipe(method, 'POST').pipe(fetch);
+ * await session.pipe(url, '/profile').pipe(fetch); // sends the session cookie
+ * ```
+ */
+export function withCookieJar(jar: CookieJar) {
+  return {
+    name: 'builtin:cookie-jar' as const,
+    inner: 'builtin:retry' as const,
+    middleware: createCookieJar(jar),
+  };
+}
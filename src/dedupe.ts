@@ -0,0 +1,167 @@
+import type { Fetchable, MiddlewareFn } from './types';
+import { skipDedupeSymbol } from './constants';
+import { abortable } from './util';
+
+/**
+ * Computes the deduplication key of a request.
+ * Return `undefined` to never deduplicate the request.
+ */
+export type DedupeKey = (
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  o: Fetchable
+) => string | undefined;
+
+/**
+ * Configuration for `withDedupe`.
+ */
+export type DedupeOptions = {
+  /** Custom key function (default: method + final URL + selected headers) */
+  key?: DedupeKey;
+  /** Request headers included in the default key (default: Accept, Authorization) */
+  headers?: string[];
+};
+
+type SharedRequest = {
+  response: Promise<Response>;
+  controller: AbortController;
+  /** Callers not yet handed the response */
+  callers: number;
+};
+
+/**
+ * Creates the default deduplication key function.
+ *
+ * Only `GET` and `HEAD` requests are deduplicated. The key consists of the
+ * method, the final URL (as built by `toFetchParams`) and the values of the
+ * selected request headers.
+ *
+ * @param headers - Request header names to include in the key
+ * @returns A key function
+ *
+ * @example
+ * ```ts
+ * withDedupe({ key: defaultDedupeKey(['Accept', 'X-Tenant']) })
+ * ```
+ */
+export function defaultDedupeKey(
+  headers: string[] = ['Accept', 'Authorization']
+): DedupeKey {
+  return (input, init, o) => {
+    const method = (init?.method || o.method || 'GET').toUpperCase();
+    if (method !== 'GET' && method !== 'HEAD') return undefined;
+
+    const requestHeaders = new Headers(init?.headers);
+    const values = headers.map(
+      (name) => `${name.toLowerCase()}:${requestHeaders.get(name) ?? ''}`
+    );
+    return [method, String(input), ...values].join('\n');
+  };
+}
+
+/**
+ * Creates a request deduplication middleware.
+ *
+ * Concurrent requests with the same key share a single network call.
+ * Each caller receives its own clone of the response, so bodies can be read
+ * independently; the last one receives the original, which leaves no body
+ * unread. Once the shared request settles, the next request with the
+ * same key goes to the network again.
+ *
+ * The shared request has a signal of its own: a caller whose signal aborts
+ * stops waiting for it, and it is aborted once every caller has.
+ * Requests configured with `skipDedupe` are never deduplicated.
+ *
+ * @param options - Deduplication configuration
+ * @returns A middleware function that coalesces identical requests
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createDedupe())
+ * ```
+ */
+export function createDedupe(options: DedupeOptions = {}): MiddlewareFn {
+  const { key = defaultDedupeKey(options.headers) } = options;
+  const inflight = new Map<string, SharedRequest>();
+
+  const join = (k: string, shared: SharedRequest, signal?: AbortSignal) => {
+    shared.callers++;
+    let waiting = true;
+    // Whether the caller leaving is the last one
+    const leave = () => {
+      waiting = false;
+      return --shared.callers === 0;
+    };
+    const abortHandler = () => {
+      if (!waiting || !leave()) return;
+      if (inflight.get(k) === shared) {
+        inflight.delete(k);
+        shared.controller.abort(signal!.reason);
+      } else {
+        // Nobody takes the original response, so its body is released
+        shared.response.then(
+          (res) => res.body?.cancel(),
+          () => {}
+        );
+      }
+    };
+    signal?.addEventListener('abort', abortHandler, { once: true });
+    return abortable(shared.response, signal)
+      .then((res) => (leave() ? res : res.clone()))
+      .finally(() => signal?.removeEventListener('abort', abortHandler));
+  };
+
+  return (f, o) => (input, init) => {
+    const k = (o as any)[skipDedupeSymbol] ? undefined : key(input, init, o);
+    if (k === undefined) return f(input, init);
+    const signal = init?.signal ?? undefined;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    let shared = inflight.get(k);
+    if (!shared) {
+      const controller = new AbortController();
+      const request: SharedRequest = {
+        controller,
+        callers: 0,
+        response: f(input, { ...init, signal: controller.signal }).finally(
+          () => {
+            if (inflight.get(k) === request) inflight.delete(k);
+          }
+        ),
+      };
+      inflight.set(k, request);
+      shared = request;
+    }
+    return join(k, shared, signal);
+  };
+}
+
+/**
+ * Creates a request deduplication middleware configuration.
+ *
+ * Name: 'builtin:dedupe'
+ * Position: outer of 'builtin:retry' (callers share all attempts),
+ * inner of 'builtin:data' (the raw response is cloned before it is parsed)
+ *
+ * @param options - Deduplication configuration
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * const client = create().pipe(use, withDedupe());
+ *
+ * // Both calls share one request
+ * await Promise.all([
+ *   client.pipe(url, '/users').pipe(fetchJSON),
+ *   client.pipe(url, '/users').pipe(fetchJSON),
+ * ]);
+ * ```
+ */
+export function withDedupe(options: DedupeOptions = {}) {
+  return {
+    name: 'builtin:dedupe' as const,
+    outer: 'builtin:retry' as const,
+    inner: 'builtin:data' as const,
+    middleware: createDedupe(options),
+  };
+}
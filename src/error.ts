@@ -0,0 +1,273 @@
+import { fetchErrorSymbol } from './constants';
+import type { RedirectHop } from './redirect';
+import type { Fetchable, StandardSchemaIssue } from './types';
+
+/**
+ * Request context used to construct an `HTTPError`.
+ */
+export type HTTPErrorInit = {
+  url: string;
+  method: string;
+  options: Fetchable;
+  response?: Response;
+  cause?: unknown;
+};
+
+/**
+ * Base class for errors produced by a request.
+ *
+ * Carries the request context (final URL, method and the `Fetchable` options)
+ * and, when the server answered, the `Response` and its status.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.pipe(url, '/users').pipe(throwHttpErrors).pipe(fetchJSON);
+ * } catch (e) {
+ *   if (e instanceof HTTPError) {
+ *     console.error(e.status, e.method, e.url);
+ *   }
+ * }
+ * ```
+ */
+export class HTTPError extends Error {
+  /** HTTP status code, or 0 when no response was received */
+  readonly status: number;
+  /** The response that caused the error, if any */
+  readonly response?: Response;
+  /** The final request URL */
+  readonly url: string;
+  /** The request method */
+  readonly method: string;
+  /** The fetchable configuration of the failed request */
+  readonly options: Fetchable;
+
+  constructor(message: string, init: HTTPErrorInit) {
+    super(message, { cause: init.cause });
+    this.name = new.target.name;
+    this.status = init.response?.status ?? 0;
+    this.response = init.response;
+    this.url = init.url;
+    this.method = init.method;
+    this.options = init.options;
+  }
+}
+
+/**
+ * Error for responses with a 4xx status code.
+ */
+export class ClientError extends HTTPError {}
+
+/**
+ * Error for responses with a 5xx status code.
+ */
+export class ServerError extends HTTPError {}
+
+/**
+ * Which timeout limit aborted a request.
+ * - `attempt`: the per-attempt timeout (inside retry)
+ * - `total`: the overall deadline (outside retry)
+ */
+export type TimeoutLimit = 'attempt' | 'total';
+
+/**
+ * Error for requests aborted because a timeout elapsed.
+ *
+ * `limit` and `timeout` are set when the timeout came from `createTimeout`;
+ * they are undefined for foreign timeout signals (e.g. `AbortSignal.timeout`).
+ */
+export class TimeoutError extends HTTPError {
+  /** The limit that fired */
+  readonly limit?: TimeoutLimit;
+  /** The timeout duration in milliseconds */
+  readonly timeout?: number;
+
+  constructor(
+    message: string,
+    init: HTTPErrorInit & { limit?: TimeoutLimit; timeout?: number }
+  ) {
+    super(message, init);
+    this.limit = init.limit;
+    this.timeout = init.timeout;
+  }
+}
+
+/**
+ * Error for requests that failed before a response was received
+ * (DNS failure, connection refused, CORS, etc.).
+ */
+export class NetworkError extends HTTPError {}
+
+/**
+ * Error for requests rejected without being sent because the circuit of
+ * `withCircuitBreaker` is open.
+ */
+export class CircuitOpenError extends HTTPError {
+  /** The circuit the request belongs to */
+  readonly key: string;
+  /** Time in milliseconds until the circuit lets a probe request through */
+  readonly retryAfter: number;
+
+  constructor(
+    message: string,
+    init: HTTPErrorInit & { key: string; retryAfter: number }
+  ) {
+    super(message, init);
+    this.key = init.key;
+    this.retryAfter = init.retryAfter;
+  }
+}
+
+/**
+ * Error for redirects `withRedirects` refused to follow, because there were
+ * too many or one would downgrade https to http.
+ */
+export class RedirectError extends HTTPError {
+  /** The redirects followed before the refused one */
+  readonly redirects: RedirectHop[];
+
+  constructor(
+    message: string,
+    init: HTTPErrorInit & { redirects: RedirectHop[] }
+  ) {
+    super(message, init);
+    this.redirects = init.redirects;
+  }
+}
+
+/**
+ * Error for response data rejected by the schema set via `validate`.
+ *
+ * Carries the validation `issues` and the raw parsed payload, along with the
+ * request context of `HTTPError`.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await client.pipe(url, '/users').pipe(validate, UserList).pipe(fetchJSON);
+ * } catch (e) {
+ *   if (e instanceof ResponseValidationError) {
+ *     console.error(e.url, e.issues, e.data);
+ *   }
+ * }
+ * ```
+ */
+export class ResponseValidationError extends HTTPError {
+  /** The issues reported by the validator */
+  readonly issues: readonly StandardSchemaIssue[];
+  /** The raw payload produced by the data reader */
+  readonly data: unknown;
+
+  constructor(
+    message: string,
+    init: HTTPErrorInit & {
+      issues: readonly StandardSchemaIssue[];
+      data: unknown;
+    }
+  ) {
+    super(message, init);
+    this.issues = init.issues;
+    this.data = init.data;
+  }
+}
+
+/**
+ * Creates the `HTTPError` subclass matching the response status.
+ *
+ * @param res - The unsuccessful response
+ * @param url - The final request URL
+ * @param o - The fetchable configuration
+ * @returns A `ClientError` for 4xx, a `ServerError` for 5xx, otherwise an `HTTPError`
+ *
+ * @example
+ * ```ts
+ * if (!res.ok) throw createHTTPError(res, url, o);
+ * ```
+ */
+export function createHTTPError(
+  res: Response,
+  url: string,
+  o: Fetchable
+): HTTPError {
+  const method = (o.method || 'GET').toUpperCase();
+  const status = `${res.status}${res.statusText ? ` ${res.statusText}` : ''}`;
+  const message = `Request failed with status code ${status}: ${method} ${url}`;
+  const init = { url, method, options: o, response: res };
+
+  if (res.status >= 400 && res.status < 500) {
+    return new ClientError(message, init);
+  }
+  if (res.status >= 500 && res.status < 600) {
+    return new ServerError(message, init);
+  }
+  return new HTTPError(message, init);
+}
+
+/**
+ * Converts a fetch rejection into a `TimeoutError` or `NetworkError`.
+ *
+ * Only a `TypeError` rejected by the fetch function itself is a network
+ * error: one thrown by a middleware, such as a bug, is not converted.
+ * `HTTPError`s, user aborts and any other errors are returned unchanged.
+ *
+ * @param e - The rejection reason
+ * @param url - The final request URL
+ * @param o - The fetchable configuration
+ * @returns The converted error
+ */
+export function toHTTPError(e: unknown, url: string, o: Fetchable): unknown {
+  if (e instanceof HTTPError) return e;
+
+  const method = (o.method || 'GET').toUpperCase();
+  const init = { url, method, options: o, cause: e };
+  const name = (e as Error | undefined)?.name;
+
+  if (name === 'TimeoutError') {
+    return new TimeoutError(`Request timed out: ${method} ${url}`, init);
+  }
+  if (e instanceof TypeError && (e as any)[fetchErrorSymbol]) {
+    return new NetworkError(`Network error: ${method} ${url}`, init);
+  }
+  return e;
+}
+
+function formatIssue(issue: StandardSchemaIssue): string {
+  const path = (issue.path || [])
+    .map((segment) =>
+      String(typeof segment === 'object' ? segment.key : segment)
+    )
+    .join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Creates a `ResponseValidationError` for data rejected by a schema.
+ *
+ * @param res - The response the data was read from
+ * @param url - The final request URL
+ * @param o - The fetchable configuration
+ * @param issues - The issues reported by the validator
+ * @param data - The raw payload
+ * @returns The validation error
+ */
+export function createResponseValidationError(
+  res: Response,
+  url: string,
+  o: Fetchable,
+  issues: readonly StandardSchemaIssue[],
+  data: unknown
+): ResponseValidationError {
+  const method = (o.method || 'GET').toUpperCase();
+  const message = [
+    `Response validation failed: ${method} ${url}`,
+    ...issues.map((issue) => `  - ${formatIssue(issue)}`),
+  ].join('\n');
+  return new ResponseValidationError(message, {
+    url,
+    method,
+    options: o,
+    response: res,
+    issues,
+    data,
+  });
+}
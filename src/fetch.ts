@@ -1,13 +1,14 @@
 import { json } from './config';
+import { fetchErrorSymbol } from './constants';
 import { sortMiddlewares } from './middleware';
-import type { Fetchable, Pipe } from './types';
-import { getData } from './util';
+import type { CheckPathParams, Fetchable, InferData, Pipe } from './types';
+import { buildUrl, getData } from './util';
 
 /**
  * Converts a Fetchable configuration to fetch parameters.
  *
- * Extracts the URL (combining baseUrl and url) and RequestInit options
- * from the configuration object.
+ * Extracts the URL (combining baseUrl and url, filling in path params) and
+ * RequestInit options from the configuration object.
  *
  * @param o - The fetchable configuration
  * @returns A tuple of [url, requestInit] for use with fetch
@@ -23,6 +24,7 @@ export function toFetchParams(o: Fetchable): [string, RequestInit] {
   const {
     baseUrl,
     url,
+    params,
     searchParams,
     fetch,
     middlewares,
@@ -32,15 +34,8 @@ export function toFetchParams(o: Fetchable): [string, RequestInit] {
     ...rest
   } = o as Fetchable & Pipe;
 
-  // Build final URL: baseUrl + url + searchParams
-  let finalUrl = baseUrl ? `${baseUrl}${url}` : url;
-
-  if (searchParams && searchParams.size > 0) {
-    const separator = finalUrl.includes('?') ? '&' : '?';
-    finalUrl = `${finalUrl}${separator}${searchParams.toString()}`;
-  }
-
-  return [finalUrl, rest];
+  // Build final URL: baseUrl + url (with path params) + searchParams
+  return [buildUrl(o), rest];
 }
 
 /**
@@ -66,6 +61,8 @@ export function applyMiddlewares(f: typeof globalThis.fetch, o: Fetchable) {
  * Executes a fetch request with the given configuration.
  *
  * Applies all configured middlewares and makes the HTTP request.
+ * When the URL is a template with `:name` path parameters, it is a type error
+ * to call `fetch` without `params` for all of them.
  *
  * @param o - The fetchable configuration (must include url)
  * @returns A Promise resolving to the Response
@@ -78,9 +75,18 @@ export function applyMiddlewares(f: typeof globalThis.fetch, o: Fetchable) {
  *   .pipe(fetch);
  * ```
  */
-export function fetch(o: Fetchable) {
+export function fetch<T extends Fetchable>(o: T & CheckPathParams<T>) {
   const f = o.fetch || globalThis.fetch;
-  return applyMiddlewares(f, o)(...toFetchParams(o));
+  // Marks the failures of the fetch itself, which become `NetworkError`s
+  const base: typeof globalThis.fetch = async (input, init) => {
+    try {
+      return await f(input, init);
+    } catch (e) {
+      if (e instanceof TypeError) (e as any)[fetchErrorSymbol] = true;
+      throw e;
+    }
+  };
+  return applyMiddlewares(base, o)(...toFetchParams(o));
 }
 
 /**
@@ -88,6 +94,7 @@ export function fetch(o: Fetchable) {
  *
  * Requires a data reader middleware (like `json`, `text`, or `blob`) to be configured.
  * Use `getData()` to retrieve the parsed data from the response.
+ * When a schema is set via `validate`, the data type is its output type.
  *
  * @template T - The expected data type
  * @param o - The fetchable configuration with a data reader
@@ -101,14 +108,17 @@ export function fetch(o: Fetchable) {
  *   .pipe(fetchData);
  * ```
  */
-export function fetchData<T = unknown>(o: Fetchable): Promise<T> {
-  return fetch(o).then(getData<T>);
+export function fetchData<T = unknown, O extends Fetchable = Fetchable>(
+  o: O & CheckPathParams<O>
+): Promise<InferData<O, T>> {
+  return fetch(o).then(getData<InferData<O, T>>);
 }
 
 /**
  * Executes a fetch request and parses the response as JSON.
  *
  * Convenience function that combines `json` middleware with `fetchData`.
+ * When a schema is set via `validate`, the data type is its output type.
  *
  * @template T - The expected JSON data type
  * @param o - The fetchable configuration
@@ -123,6 +133,8 @@ export function fetchData<T = unknown>(o: Fetchable): Promise<T> {
  *   .pipe(fetchJSON<User[]>);
  * ```
  */
-export function fetchJSON<T = unknown>(o: Fetchable): Promise<T> {
-  return fetchData<T>(json(o));
+export function fetchJSON<T = unknown, O extends Fetchable = Fetchable>(
+  o: O & CheckPathParams<O>
+): Promise<InferData<O, T>> {
+  return fetchData<InferData<O, T>>(json(o as Fetchable));
 }
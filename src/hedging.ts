@@ -0,0 +1,145 @@
+import type { Fetchable, MiddlewareFn } from './types';
+
+/**
+ * Configuration for `withHedging`.
+ */
+export type HedgingOptions = {
+  /** Time to wait before sending the next hedge in milliseconds */
+  delay: number;
+  /** Maximum number of hedges besides the first attempt (default: 1) */
+  maxHedges?: number;
+  /** Methods that are hedged (default: GET, HEAD, OPTIONS) */
+  methods?: string[];
+  /** Called with the 0-based index of the attempt whose response was used */
+  onWin?: (attempt: number, o: Fetchable) => void;
+};
+
+/**
+ * Creates a request hedging middleware.
+ *
+ * When the first attempt has not responded within `delay`, an identical
+ * request is sent, up to `maxHedges` times, and the first response wins. The
+ * other attempts are aborted through their own `AbortController`s. A failed
+ * attempt does not fail the request while other attempts are in flight or
+ * hedges remain; only when every attempt failed does the request reject with
+ * the last error.
+ *
+ * Only safe methods are hedged, since the server may receive every attempt.
+ *
+ * @param options - Hedging configuration
+ * @returns A middleware function that hedges slow requests
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createHedging({ delay: 200 }))
+ * ```
+ */
+export function createHedging(options: HedgingOptions): MiddlewareFn {
+  const {
+    delay,
+    maxHedges = 1,
+    methods = ['GET', 'HEAD', 'OPTIONS'],
+    onWin,
+  } = options;
+  const safeMethods = new Set(methods.map((m) => m.toUpperCase()));
+
+  return (f, o) => (input, init) => {
+    const method = (init?.method || o.method || 'GET').toUpperCase();
+    if (!safeMethods.has(method)) return f(input, init);
+
+    const signal = init?.signal ?? undefined;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise<Response>((resolve, reject) => {
+      const controllers: AbortController[] = [];
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let pending = 0;
+      let settled = false;
+
+      const finish = () => {
+        settled = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        finish();
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const send = () => {
+        const attempt = controllers.length;
+        const controller = new AbortController();
+        controllers.push(controller);
+        pending++;
+
+        clearTimeout(timer);
+        if (attempt < maxHedges) timer = setTimeout(send, delay);
+
+        f(input, {
+          ...init,
+          signal: signal
+            ? AbortSignal.any([signal, controller.signal])
+            : controller.signal,
+        }).then(
+          (res) => {
+            pending--;
+            if (settled) {
+              res.body?.cancel().catch(() => {});
+              return;
+            }
+            finish();
+            controllers.forEach((c, i) => i !== attempt && c.abort());
+            onWin?.(attempt, o);
+            resolve(res);
+          },
+          (error) => {
+            pending--;
+            if (settled) return;
+            if (controllers.length <= maxHedges) {
+              // Do not wait for the delay when nothing is left in flight
+              if (!pending) send();
+              return;
+            }
+            if (!pending) {
+              finish();
+              reject(error);
+            }
+          }
+        );
+      };
+
+      send();
+    });
+  };
+}
+
+/**
+ * Creates a request hedging middleware configuration.
+ *
+ * Name: 'builtin:hedging'
+ * Position: inner of 'builtin:retry' (each retry attempt is hedged),
+ * outer of 'builtin:concurrency' (every hedge counts against the limits)
+ *
+ * @param options - Hedging configuration
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * // Send a second request if the replica has not answered within 100ms
+ * client.pipe(use, withHedging({
+ *   delay: 100,
+ *   maxHedges: 1,
+ *   onWin: (attempt) => metrics.increment(`hedge.win.${attempt}`),
+ * }))
+ * ```
+ */
+export function withHedging(options: HedgingOptions) {
+  return {
+    name: 'builtin:hedging' as const,
+    inner: 'builtin:retry' as const,
+    outer: 'builtin:concurrency' as const,
+    middleware: createHedging(options),
+  };
+}
@@ -0,0 +1,302 @@
+import { hooksSymbol, retryContextSymbol } from './constants';
+import { use } from './config';
+import { mergeHeaders } from './util';
+import type { RetryContext } from './middleware';
+import type {
+  Fetchable,
+  MiddlewareConfig,
+  MiddlewareEntry,
+  MiddlewareFn,
+  Options,
+} from './types';
+
+/**
+ * A mutable view of a request passed to hooks. Changes are sent.
+ */
+export type HookRequest = {
+  /** The full request URL */
+  url: string;
+  /** The uppercased request method */
+  method: string;
+  /** The request headers */
+  headers: Headers;
+  /** The request body */
+  body?: BodyInit | null;
+  /** The request signal */
+  signal?: AbortSignal | null;
+};
+
+/**
+ * Runs before a request is sent. Return a `Response` to skip sending it.
+ */
+export type BeforeRequestHook = (
+  request: HookRequest,
+  o: Fetchable
+) => void | Response | Promise<void | Response>;
+
+/**
+ * Runs after a response is received. Return a `Response` to replace it.
+ */
+export type AfterResponseHook = (
+  request: HookRequest,
+  response: Response,
+  o: Fetchable
+) => void | Response | Promise<void | Response>;
+
+/**
+ * Runs before a failed request is retried, with the attempt that failed.
+ * Return a `Response` to skip sending the retry.
+ */
+export type BeforeRetryHook = (
+  request: HookRequest,
+  context: RetryContext
+) => void | Response | Promise<void | Response>;
+
+/**
+ * Runs before a request rejects. Return a value to reject with it instead.
+ */
+export type BeforeErrorHook = (
+  error: unknown,
+  request: HookRequest,
+  o: Fetchable
+) => unknown;
+
+type Hooks = {
+  beforeRequest: BeforeRequestHook[];
+  afterResponse: AfterResponseHook[];
+  beforeRetry: BeforeRetryHook[];
+  beforeError: BeforeErrorHook[];
+};
+
+type Positioning = Pick<MiddlewareConfig, 'outer' | 'inner'>;
+
+// All hooks run inside retry except beforeError, in the order
+// before-retry > before-request > after-response
+const positions: Record<keyof Hooks, Positioning> = {
+  beforeRetry: { inner: 'builtin:retry', outer: 'builtin:before-request' },
+  beforeRequest: { inner: 'builtin:retry', outer: 'builtin:after-response' },
+  afterResponse: { inner: 'builtin:retry' },
+  beforeError: { outer: ['builtin:retry', 'builtin:http-errors'] },
+};
+
+const names: Record<keyof Hooks, `builtin:${string}`> = {
+  beforeRetry: 'builtin:before-retry',
+  beforeRequest: 'builtin:before-request',
+  afterResponse: 'builtin:after-response',
+  beforeError: 'builtin:before-error',
+};
+
+function getHooks<K extends keyof Hooks>(o: Fetchable, kind: K): Hooks[K] {
+  return ((o as any)[hooksSymbol] as Partial<Hooks> | undefined)?.[kind] ?? [];
+}
+
+// The init takes precedence over a Request input, as it does for fetch
+function toHookRequest(
+  input: Parameters<typeof fetch>[0],
+  init: RequestInit | undefined,
+  o: Fetchable
+): HookRequest {
+  const request = input instanceof Request ? input : undefined;
+  const method = init?.method || request?.method || o.method || 'GET';
+  return {
+    url: request ? request.url : String(input),
+    method: method.toUpperCase(),
+    headers: new Headers(init?.headers ?? request?.headers),
+    body: init?.body,
+    signal: init?.signal,
+  };
+}
+
+function send(
+  f: typeof fetch,
+  request: HookRequest,
+  input: Parameters<typeof fetch>[0],
+  init?: RequestInit
+) {
+  const { url, headers, ...rest } = request;
+  // A Request input keeps its body unless a hook changed the URL
+  const target = input instanceof Request && input.url === url ? input : url;
+  return f(target, { ...init, ...rest, headers: mergeHeaders(headers) });
+}
+
+const middlewares: Record<keyof Hooks, MiddlewareFn> = {
+  beforeRequest: (f, o) => async (input, init) => {
+    const request = toHookRequest(input, init, o);
+    for (const hook of getHooks(o, 'beforeRequest')) {
+      const res = await hook(request, o);
+      if (res instanceof Response) return res;
+    }
+    return send(f, request, input, init);
+  },
+
+  afterResponse: (f, o) => async (input, init) => {
+    const request = toHookRequest(input, init, o);
+    let res = await f(input, init);
+    for (const hook of getHooks(o, 'afterResponse')) {
+      res = (await hook(request, res, o)) ?? res;
+    }
+    return res;
+  },
+
+  beforeRetry: (f, o) => async (input, init) => {
+    const request = toHookRequest(input, init, o);
+    // Retries pass the failed attempt along with the init
+    const previous = (init as any)?.[retryContextSymbol] as
+      | RetryContext
+      | undefined;
+    if (previous) {
+      for (const hook of getHooks(o, 'beforeRetry')) {
+        const res = await hook(request, { ...previous, options: o });
+        if (res instanceof Response) return res;
+      }
+    }
+    return send(f, request, input, init);
+  },
+
+  beforeError: (f, o) => async (input, init) => {
+    try {
+      return await f(input, init);
+    } catch (e) {
+      const request = toHookRequest(input, init, o);
+      let error = e;
+      for (const hook of getHooks(o, 'beforeError')) {
+        error = (await hook(error, request, o)) ?? error;
+      }
+      throw error;
+    }
+  },
+};
+
+// Appends a hook, registering the middleware of its kind on first use
+function addHook<T extends Options, K extends keyof Hooks>(
+  o: T,
+  kind: K,
+  hook: Hooks[K][number]
+): Omit<T, 'middlewares'> & { middlewares: MiddlewareEntry[] } {
+  const hooks = (o as any)[hooksSymbol] as Partial<Hooks> | undefined;
+  const options = {
+    ...o,
+    [hooksSymbol]: { ...hooks, [kind]: [...(hooks?.[kind] ?? []), hook] },
+  };
+  if (o.middlewares?.some((m) => m.name === names[kind])) {
+    return options as typeof options & { middlewares: MiddlewareEntry[] };
+  }
+  return use(options, {
+    name: names[kind],
+    ...positions[kind],
+    middleware: middlewares[kind],
+  });
+}
+
+/**
+ * Adds a hook that runs before each attempt of a request is sent.
+ *
+ * Hooks run in the order they were added and may change the request view.
+ * The first hook returning a `Response` stops the others, and the response
+ * is used without sending the request.
+ *
+ * Name: 'builtin:before-request'
+ * Position: inner of 'builtin:retry', outer of 'builtin:after-response'
+ *
+ * @param o - The options object to modify
+ * @param hook - The hook
+ * @returns A new options object with the hook added
+ *
+ * @example
+ * ```ts
+ * client.pipe(beforeRequest, (request) => {
+ *   request.headers.set('X-Request-Id', crypto.randomUUID());
+ * })
+ * ```
+ */
+export function beforeRequest<T extends Options>(
+  o: T,
+  hook: BeforeRequestHook
+) {
+  return addHook(o, 'beforeRequest', hook);
+}
+
+/**
+ * Adds a hook that runs after each response, including responses that are
+ * retried afterwards.
+ *
+ * Hooks run in the order they were added; a returned `Response` replaces the
+ * response for the following hooks and the caller. Responses returned by
+ * `beforeRequest` or `beforeRetry` hooks skip these hooks.
+ *
+ * Name: 'builtin:after-response'
+ * Position: inner of 'builtin:retry'
+ *
+ * @param o - The options object to modify
+ * @param hook - The hook
+ * @returns A new options object with the hook added
+ *
+ * @example
+ * ```ts
+ * client.pipe(afterResponse, (request, response) => {
+ *   metrics.record(request.method, response.status);
+ * })
+ * ```
+ */
+export function afterResponse<T extends Options>(
+  o: T,
+  hook: AfterResponseHook
+) {
+  return addHook(o, 'afterResponse', hook);
+}
+
+/**
+ * Adds a hook that runs before a failed attempt is retried.
+ *
+ * The context describes the failed attempt, as passed to the `retryOn` of a
+ * retry policy. Hooks run in the order they were added and may change the
+ * request view of the retry. The first hook returning a `Response` stops the
+ * others, and the response is used without sending the retry.
+ *
+ * Name: 'builtin:before-retry'
+ * Position: inner of 'builtin:retry', outer of 'builtin:before-request'
+ *
+ * @param o - The options object to modify
+ * @param hook - The hook
+ * @returns A new options object with the hook added
+ *
+ * @example
+ * ```ts
+ * client
+ *   .pipe(retry, { retries: 3, statusCodes: [503] })
+ *   .pipe(beforeRetry, (request, { attempt }) => {
+ *     request.headers.set('X-Retry-Attempt', String(attempt + 1));
+ *   })
+ * ```
+ */
+export function beforeRetry<T extends Options>(o: T, hook: BeforeRetryHook) {
+  return addHook(o, 'beforeRetry', hook);
+}
+
+/**
+ * Adds a hook that runs before a request rejects, after all retries.
+ *
+ * Hooks run in the order they were added; a returned value other than
+ * undefined replaces the error for the following hooks and the caller.
+ * The hooks wrap 'builtin:http-errors', so they see the errors of
+ * `throwHttpErrors`.
+ *
+ * Name: 'builtin:before-error'
+ * Position: outer of 'builtin:retry' and 'builtin:http-errors'
+ *
+ * @param o - The options object to modify
+ * @param hook - The hook
+ * @returns A new options object with the hook added
+ *
+ * @example
+ * ```ts
+ * client.pipe(throwHttpErrors).pipe(beforeError, (error) => {
+ *   if (error instanceof ClientError) {
+ *     return new ApiError(error.status, error.message);
+ *   }
+ * })
+ * ```
+ */
+export function beforeError<T extends Options>(o: T, hook: BeforeErrorHook) {
+  return addHook(o, 'beforeError', hook);
+}
@@ -2,14 +2,45 @@ export * from './types';
 export * from './create';
 export * from './config';
 export * from './fetch';
+export * from './error';
+export * from './cache';
+export * from './dedupe';
+export * from './mock';
+export * from './replay';
+export * from './sse';
+export * from './stream';
+export * from './paginate';
+export * from './rate-limit';
+export * from './concurrency';
+export * from './circuit-breaker';
+export * from './hedging';
+export * from './oauth2';
+export * from './signing';
+export * from './http-auth';
+export * from './cookie-jar';
+export * from './redirect';
+export * from './hooks';
 export {
   createRetry,
   createRetryBase,
+  createRetryPolicy,
+  parseRetryAfter,
   normalizeMiddleware,
   sortMiddlewares,
   withRetry,
   withTimeout,
+  withAttemptTimeout,
+  createTimeout,
   withAuth,
   withLogging,
 } from './middleware';
-export { createQuery, type TupleArrayToRecord } from './util';
+export type {
+  RetryBackoff,
+  RetryContext,
+  RetryPolicy,
+} from './middleware';
+export {
+  createQuery,
+  serializeQuery,
+  type TupleArrayToRecord,
+} from './util';
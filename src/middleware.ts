@@ -7,7 +7,18 @@ import type {
   MiddlewareName,
 } from './types';
 import { NORMAL } from './types';
-import { sleep, retry, backoffDelay, isNotRetryError } from './util';
+import { retryContextSymbol } from './constants';
+import { TimeoutError } from './error';
+import type { TimeoutLimit } from './error';
+import {
+  sleep,
+  retry,
+  abortable,
+  backoffDelay,
+  isNotRetryError,
+  isStrippedHeader,
+  mergeHeaders,
+} from './util';
 
 /**
  * Callback function invoked before each retry attempt.
@@ -45,12 +56,16 @@ export type FetchBeforeRetry = (
  * ```
  */
 export function createRetryBase(beforeRetry: FetchBeforeRetry): MiddlewareFn {
-  return (f, o) =>
-    (...params: Parameters<typeof f>) =>
-      retry(
-        () => f(...params),
-        (attempt, err) => beforeRetry(attempt, err, o)
-      );
+  return (f, o) => (input, init) => {
+    let previous: RetryContext | undefined;
+    return retry(
+      () => f(input, withRetryContext(init, previous)),
+      async (attempt, error) => {
+        await beforeRetry(attempt, error, o);
+        previous = { attempt, error, options: o };
+      }
+    );
+  };
 }
 
 /**
@@ -85,6 +100,244 @@ export function createRetry(maxRetries: number): MiddlewareFn {
   });
 }
 
+/**
+ * Exponential backoff settings used between retry attempts.
+ */
+export type RetryBackoff = {
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Maximum delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Exponential multiplier per attempt (default: 2) */
+  multiplier?: number;
+};
+
+/**
+ * Information passed to `retryOn` when deciding whether to retry.
+ */
+export type RetryContext = {
+  /** The current attempt number (0-indexed) */
+  attempt: number;
+  /** The response of the failed attempt, if the server answered */
+  response?: Response;
+  /** The error of the failed attempt, if the request rejected */
+  error?: unknown;
+  /** The fetchable configuration */
+  options: Fetchable;
+};
+
+// Retries tell inner middlewares (such as `beforeRetry` hooks) which attempt
+// failed; symbol keys survive the init copies of the middlewares in between
+function withRetryContext(init?: RequestInit, previous?: RetryContext) {
+  return previous ? { ...init, [retryContextSymbol]: previous } : init;
+}
+
+/**
+ * Configuration for `createRetryPolicy`.
+ */
+export type RetryPolicy = {
+  /** Maximum number of retry attempts (default: 2) */
+  retries?: number;
+  /** Response status codes that trigger a retry (default: 408, 413, 429, 500, 502, 503, 504) */
+  statusCodes?: number[];
+  /** Methods that may be retried (default: idempotent methods) */
+  methods?: string[];
+  /**
+   * Custom retry decision. Return `true`/`false` to override the built-in
+   * status code and method checks, or `undefined` to keep them.
+   */
+  retryOn?: (
+    context: RetryContext
+  ) => boolean | undefined | Promise<boolean | undefined>;
+  /** Backoff settings or a function returning the delay for an attempt */
+  backoff?: RetryBackoff | ((attempt: number) => number);
+  /** Wait for the `Retry-After` response header when present (default: true) */
+  respectRetryAfter?: boolean;
+  /** Upper bound in milliseconds for a `Retry-After` wait (default: Infinity) */
+  maxRetryAfter?: number;
+};
+
+const defaultRetryStatusCodes = [408, 413, 429, 500, 502, 503, 504];
+const defaultRetryMethods = [
+  'GET',
+  'HEAD',
+  'PUT',
+  'DELETE',
+  'OPTIONS',
+  'TRACE',
+];
+
+/**
+ * Parses a `Retry-After` header value into a delay in milliseconds.
+ *
+ * Supports both delay-seconds and HTTP-date forms.
+ *
+ * @param value - The header value
+ * @returns The delay in milliseconds, or undefined if the value is invalid
+ *
+ * @example
+ * ```ts
+ * parseRetryAfter('120'); // 120000
+ * parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT'); // ms until that date
+ * ```
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Creates a retry middleware driven by a retry policy.
+ *
+ * Unlike `createRetry`, responses with a retryable status code (e.g. 503 or
+ * 429) are retried too, and only idempotent methods are retried by default.
+ * When the response carries a `Retry-After` header, its delay is used instead
+ * of the exponential backoff. After the last attempt the final response is
+ * returned (or the final error thrown) as is.
+ *
+ * Errors wrapped with `asNotRetryError()` will not be retried, and the request
+ * `signal` cancels any pending wait.
+ *
+ * @param policy - The retry policy
+ * @returns A middleware function that adds retry capability
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createRetryPolicy({
+ *   retries: 3,
+ *   statusCodes: [429, 503],
+ *   backoff: { initialDelay: 500, maxDelay: 5000 },
+ *   maxRetryAfter: 30000,
+ * }))
+ * ```
+ */
+export function createRetryPolicy(policy: RetryPolicy = {}): MiddlewareFn {
+  const {
+    retries = 2,
+    statusCodes = defaultRetryStatusCodes,
+    methods = defaultRetryMethods,
+    retryOn,
+    backoff = {},
+    respectRetryAfter = true,
+    maxRetryAfter = Infinity,
+  } = policy;
+
+  const getDelay =
+    typeof backoff === 'function'
+      ? backoff
+      : (attempt: number) =>
+          backoffDelay(
+            attempt,
+            backoff.initialDelay ?? 1000,
+            backoff.maxDelay ?? 10000,
+            backoff.multiplier ?? 2
+          );
+
+  const shouldRetry = async (context: RetryContext) => {
+    if (context.attempt >= retries) return false;
+
+    const custom = await retryOn?.(context);
+    if (custom !== undefined) return custom;
+
+    const method = (context.options.method || 'GET').toUpperCase();
+    if (!methods.includes(method)) return false;
+    if (context.response) return statusCodes.includes(context.response.status);
+    return true;
+  };
+
+  return (f, o) =>
+    async (input, init) => {
+      const signal = init?.signal ?? o.signal;
+      let previous: RetryContext | undefined;
+
+      for (let attempt = 0; ; attempt++) {
+        let response: Response | undefined;
+        let error: unknown;
+        try {
+          response = await f(input, withRetryContext(init, previous));
+        } catch (e) {
+          if (isNotRetryError(e)) throw e.cause;
+          error = e;
+        }
+
+        const context = { attempt, response, error, options: o };
+        previous = context;
+        if (!(await shouldRetry(context))) {
+          if (response) return response;
+          throw error;
+        }
+
+        let delay = getDelay(attempt);
+        if (response) {
+          const retryAfter = respectRetryAfter
+            ? parseRetryAfter(response.headers.get('Retry-After'))
+            : undefined;
+          if (retryAfter !== undefined) {
+            delay = Math.min(retryAfter, maxRetryAfter);
+          }
+          // Release the connection held by the discarded response
+          await response.body?.cancel().catch(() => {});
+        }
+
+        await sleep(delay, signal ?? undefined);
+        if (signal?.aborted) throw signal.reason;
+      }
+    };
+}
+
+/**
+ * Creates a timeout middleware that composes with the request signal.
+ *
+ * Each call starts a fresh timer. The timer signal is combined with the
+ * incoming `init.signal` (the caller's signal, or an outer timeout), so any
+ * of them aborts the request. When the timer fires, the request rejects with
+ * a `TimeoutError` reporting the `limit` that fired.
+ *
+ * @param ms - Timeout in milliseconds
+ * @param limit - Which limit this timeout represents (default: 'total')
+ * @returns A middleware function that adds a timeout
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, {
+ *   name: 'builtin:attempt-timeout',
+ *   inner: 'builtin:retry',
+ *   middleware: createTimeout(2000, 'attempt'),
+ * })
+ * ```
+ */
+export function createTimeout(
+  ms: number,
+  limit: TimeoutLimit = 'total'
+): MiddlewareFn {
+  return (f, o) => (input, init) => {
+    const url = String(input);
+    const method = (o.method || 'GET').toUpperCase();
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      controller.abort(
+        new TimeoutError(
+          `Request exceeded the ${limit} timeout of ${ms}ms: ${method} ${url}`,
+          { url, method, options: o, limit, timeout: ms }
+        )
+      );
+    }, ms);
+
+    const signal = init?.signal
+      ? AbortSignal.any([init.signal, controller.signal])
+      : controller.signal;
+
+    return abortable(f(input, { ...init, signal }), signal).finally(() =>
+      clearTimeout(timer)
+    );
+  };
+}
+
 // ============================================================================
 // Middleware Ordering System
 // ============================================================================
@@ -125,6 +378,7 @@ export function normalizeMiddleware(input: MiddlewareInput): MiddlewareEntry {
  * - Outer middlewares wrap inner middlewares
  * - `outer: X` means this middleware should be outside (wrap) X
  * - `inner: X` means this middleware should be inside (wrapped by) X
+ * - Either may list several names to be placed relative to each of them
  *
  * The sorting ensures that:
  * 1. Middlewares with `outer: NORMAL` come first (outermost)
@@ -151,15 +405,18 @@ export function sortMiddlewares(entries: MiddlewareEntry[]): MiddlewareEntry[] {
     return edges.get(name)!;
   };
 
+  const targets = (names: MiddlewareEntry['outer']) =>
+    names === undefined ? [] : Array.isArray(names) ? names : [names];
+
   // Process positioning constraints
   for (const entry of entries) {
     // If this middleware should be outer (wrap) target, it comes before target
-    if (entry.outer !== undefined) {
-      getEdges(entry.name).add(entry.outer);
+    for (const outer of targets(entry.outer)) {
+      getEdges(entry.name).add(outer);
     }
     // If this middleware should be inner (wrapped by) target, target comes before this
-    if (entry.inner !== undefined) {
-      getEdges(entry.inner).add(entry.name);
+    for (const inner of targets(entry.inner)) {
+      getEdges(inner).add(entry.name);
     }
   }
 
@@ -169,7 +426,9 @@ export function sortMiddlewares(entries: MiddlewareEntry[]): MiddlewareEntry[] {
     inDegree.set(entry.name, 0);
   }
 
-  for (const [, targets] of edges) {
+  // Constraints referencing absent middlewares are ignored
+  for (const [name, targets] of edges) {
+    if (!inDegree.has(name)) continue;
     for (const target of targets) {
       if (inDegree.has(target)) {
         inDegree.set(target, inDegree.get(target)! + 1);
@@ -225,23 +484,33 @@ export function sortMiddlewares(entries: MiddlewareEntry[]): MiddlewareEntry[] {
  *
  * Name: 'builtin:retry'
  *
- * @param maxRetries - Maximum number of retry attempts
+ * @param maxRetries - Maximum number of retry attempts, or a retry policy
  * @returns A middleware configuration with proper naming
  *
  * @example
  * ```ts
  * client.pipe(use, withRetry(3))
+ *
+ * // Retry on status codes and honor Retry-After
+ * client.pipe(use, withRetry({ retries: 3, statusCodes: [429, 503] }))
  * ```
  */
-export function withRetry(maxRetries: number) {
+export function withRetry(maxRetries: number | RetryPolicy) {
   return {
     name: 'builtin:retry' as const,
-    middleware: createRetry(maxRetries),
+    middleware:
+      typeof maxRetries === 'number'
+        ? createRetry(maxRetries)
+        : createRetryPolicy(maxRetries),
   };
 }
 
 /**
- * Creates a timeout middleware configuration using AbortSignal.
+ * Creates a total deadline middleware configuration.
+ *
+ * The deadline covers all retry attempts and the waits between them.
+ * It is combined with the caller's signal, so either one aborts the request.
+ * Rejects with a `TimeoutError` whose `limit` is `'total'`.
  *
  * Name: 'builtin:timeout'
  * Position: outer of 'builtin:retry' (timeout wraps retry)
@@ -258,8 +527,37 @@ export function withTimeout(ms: number) {
   return {
     name: 'builtin:timeout' as const,
     outer: 'builtin:retry' as const,
-    middleware: ((f) => (input, init) =>
-      f(input, { ...init, signal: AbortSignal.timeout(ms) })) as MiddlewareFn,
+    middleware: createTimeout(ms, 'total'),
+  };
+}
+
+/**
+ * Creates a per-attempt timeout middleware configuration.
+ *
+ * Each retry attempt gets its own timer. It is combined with the caller's
+ * signal and the total deadline, so any of them aborts the attempt.
+ * Rejects with a `TimeoutError` whose `limit` is `'attempt'`, which the retry
+ * middleware may retry.
+ *
+ * Name: 'builtin:attempt-timeout'
+ * Position: inner of 'builtin:retry' (each attempt is timed separately)
+ *
+ * @param ms - Timeout in milliseconds
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * client
+ *   .pipe(use, withRetry(3))
+ *   .pipe(use, withAttemptTimeout(2000))
+ *   .pipe(use, withTimeout(10000))
+ * ```
+ */
+export function withAttemptTimeout(ms: number) {
+  return {
+    name: 'builtin:attempt-timeout' as const,
+    inner: 'builtin:retry' as const,
+    middleware: createTimeout(ms, 'attempt'),
   };
 }
 
@@ -282,13 +580,14 @@ export function withAuth(token: string) {
     name: 'builtin:auth' as const,
     inner: 'builtin:retry' as const,
     middleware: ((f) => (input, init) =>
-      f(input, {
-        ...init,
-        headers: {
-          ...((init?.headers as Record<string, string>) || {}),
-          Authorization: `Bearer ${token}`,
-        },
-      })) as MiddlewareFn,
+      isStrippedHeader(init, 'Authorization')
+        ? f(input, init)
+        : f(input, {
+            ...init,
+            headers: mergeHeaders(init?.headers, {
+              Authorization: `Bearer ${token}`,
+            }),
+          })) as MiddlewareFn,
   };
 }
 
@@ -0,0 +1,363 @@
+import type { Method } from './types';
+import { sleep } from './util';
+
+/**
+ * A request received by a mock fetch.
+ */
+export type MockRequest = {
+  /** The uppercased request method */
+  method: string;
+  /** The full request URL */
+  url: string;
+  /** Values of the `:name` path parameters of the matched route */
+  params: Record<string, string>;
+  /** The query parameters of the URL */
+  query: URLSearchParams;
+  /** The request headers */
+  headers: Headers;
+  /** The request body */
+  body: BodyInit | null | undefined;
+  /** The RequestInit passed to fetch */
+  init: RequestInit;
+};
+
+/**
+ * A declarative mock response.
+ */
+export type MockResponseInit = {
+  /** Response status code (default: 200) */
+  status?: number;
+  /** Response status text */
+  statusText?: string;
+  /** Response headers */
+  headers?: HeadersInit;
+  /** Response body */
+  body?: BodyInit | null;
+  /** Response body serialized as JSON (sets `Content-Type`) */
+  json?: unknown;
+  /** Delay in milliseconds before responding (honors the request signal) */
+  delay?: number;
+  /**
+   * Rejects instead of responding. `true` rejects with a `TypeError` like
+   * a failed fetch does; any other value is used as the rejection reason.
+   */
+  error?: unknown;
+};
+
+/**
+ * What a mock route replies with: a Response (cloned for each call), a
+ * declarative response, or a function computing either from the request.
+ */
+export type MockReply =
+  | Response
+  | MockResponseInit
+  | ((
+      req: MockRequest
+    ) => Response | MockResponseInit | Promise<Response | MockResponseInit>);
+
+/**
+ * Conditions a request must meet to match a mock route.
+ */
+export type MockMatcher = {
+  /** Request method, matched case-insensitively (default: any method) */
+  method?: Method;
+  /**
+   * URL pattern. A string is matched against the pathname, or against the
+   * origin and pathname when it is an absolute URL, and may contain `:name`
+   * path parameters. A RegExp is tested against the full URL.
+   */
+  path: string | RegExp;
+  /**
+   * Query parameters that must be present (other parameters are ignored),
+   * or a predicate on the query
+   */
+  query?:
+    | Record<string, string | string[]>
+    | ((query: URLSearchParams) => boolean);
+  /** Headers that must be present with the given values */
+  headers?: Record<string, string>;
+};
+
+/**
+ * A registered mock route.
+ */
+export type MockRoute = MockMatcher & {
+  /**
+   * The reply, or a sequence of replies used one per call (the last one is
+   * repeated)
+   */
+  reply: MockReply | MockReply[];
+  /** Maximum number of requests the route matches (default: unlimited) */
+  times?: number;
+};
+
+/**
+ * Configuration for `createMockFetch`.
+ */
+export type MockFetchOptions = {
+  /**
+   * Handles requests that match no route. Defaults to rejecting with an
+   * error naming the request.
+   */
+  onUnmatched?: (req: MockRequest) => Response | Promise<Response>;
+};
+
+type RouteOptions = Omit<MockRoute, 'method' | 'path' | 'reply'>;
+
+type RegisterRoute = (
+  path: string | RegExp,
+  reply: MockReply | MockReply[],
+  options?: RouteOptions
+) => MockFetch;
+
+/**
+ * A fetch implementation with route registration and call recording.
+ */
+export type MockFetch = typeof globalThis.fetch & {
+  /** All requests received, in order */
+  readonly calls: MockRequest[];
+  /** Requests that matched no route, in order */
+  readonly unmatched: MockRequest[];
+  /** Registers a route */
+  route(route: MockRoute): MockFetch;
+  /** Registers a GET route */
+  get: RegisterRoute;
+  /** Registers a POST route */
+  post: RegisterRoute;
+  /** Registers a PUT route */
+  put: RegisterRoute;
+  /** Registers a PATCH route */
+  patch: RegisterRoute;
+  /** Registers a DELETE route */
+  delete: RegisterRoute;
+  /** Returns the recorded requests matching the method and URL pattern */
+  callsTo(method: Method, path: string | RegExp): MockRequest[];
+  /** Throws if any request matched no route */
+  assertNoUnmatched(): void;
+  /** Removes all routes and recorded requests */
+  reset(): void;
+};
+
+type CompiledRoute = {
+  route: MockRoute;
+  match: (url: URL) => Record<string, string> | undefined;
+  count: number;
+};
+
+function compilePath(
+  path: string | RegExp
+): (url: URL) => Record<string, string> | undefined {
+  if (path instanceof RegExp) {
+    // Without the g and y flags, `test` does not depend on `lastIndex`
+    const regexp = new RegExp(path.source, path.flags.replace(/[gy]/g, ''));
+    return (url) => (regexp.test(url.href) ? {} : undefined);
+  }
+
+  const absolute = /^[a-z][a-z\d+\-.]*:\/\//i.test(path);
+  const names: string[] = [];
+  const source = path
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:([A-Za-z_$][\w$]*)/g, (_, name: string) => {
+      names.push(name);
+      return '([^/?#]+)';
+    });
+  const pattern = new RegExp(`^${source}/?$`, absolute ? 'i' : '');
+
+  return (url) => {
+    const result = pattern.exec(
+      absolute ? url.origin + url.pathname : url.pathname
+    );
+    if (!result) return undefined;
+    try {
+      return Object.fromEntries(
+        names.map((name, i) => [name, decodeURIComponent(result[i + 1]!)])
+      );
+    } catch {
+      // A malformed escape sequence matches no route
+      return undefined;
+    }
+  };
+}
+
+// Relative URLs (no baseUrl configured) are resolved against a dummy origin
+function toURL(url: string): URL {
+  return new URL(url, 'http://localhost');
+}
+
+function matchesQuery(
+  query: URLSearchParams,
+  expected: MockMatcher['query']
+): boolean {
+  if (!expected) return true;
+  if (typeof expected === 'function') return expected(query);
+
+  return Object.entries(expected).every(([name, value]) => {
+    const actual = query.getAll(name);
+    const values = Array.isArray(value) ? value : [value];
+    return values.every((v) => actual.includes(v));
+  });
+}
+
+function matchesHeaders(
+  headers: Headers,
+  expected: MockMatcher['headers']
+): boolean {
+  if (!expected) return true;
+  return Object.entries(expected).every(
+    ([name, value]) => headers.get(name) === value
+  );
+}
+
+async function respond(reply: MockReply, req: MockRequest): Promise<Response> {
+  if (reply instanceof Response) return reply.clone();
+  const result = typeof reply === 'function' ? await reply(req) : reply;
+  if (result instanceof Response) return result;
+
+  const {
+    status = 200,
+    statusText,
+    headers,
+    body = null,
+    json,
+    delay: ms,
+    error,
+  } = result;
+  const signal = req.init.signal ?? undefined;
+  if (ms) await sleep(ms, signal);
+  if (signal?.aborted) throw signal.reason;
+  if (error === true) throw new TypeError('fetch failed');
+  if (error !== undefined) throw error;
+
+  if (json === undefined) {
+    return new Response(body, { status, statusText, headers });
+  }
+  const jsonHeaders = new Headers(headers);
+  if (!jsonHeaders.has('Content-Type')) {
+    jsonHeaders.set('Content-Type', 'application/json');
+  }
+  return new Response(JSON.stringify(json), {
+    status,
+    statusText,
+    headers: jsonHeaders,
+  });
+}
+
+/**
+ * Creates a mock fetch for tests.
+ *
+ * Plug it into the `fetch` option and register routes by method and URL
+ * pattern. Routes are tried in registration order; the first one that
+ * matches (and is not exhausted by `times`) replies. Every request is
+ * recorded in `calls`, and requests that match no route in `unmatched`.
+ *
+ * @param options - Mock configuration
+ * @returns A fetch implementation with route registration and assertions
+ *
+ * @example
+ * ```ts
+ * const mockFetch = createMockFetch()
+ *   .get('/users/:id', (req) => ({ json: { id: req.params.id } }))
+ *   .post('/users', { status: 201, json: { id: '2' } })
+ *   .get('/search', { json: [] }, { query: { q: 'fetch' } })
+ *   .get('/flaky', [{ error: true }, { status: 503 }, { json: 'ok' }]);
+ *
+ * const client = create({ baseUrl: 'https://api.example.com', fetch: mockFetch });
+ * await client.pipe(url, '/users/1').pipe(fetchJSON); // => { id: '1' }
+ *
+ * mockFetch.callsTo('GET', '/users/:id').length; // => 1
+ * mockFetch.assertNoUnmatched();
+ * ```
+ */
+export function createMockFetch(options: MockFetchOptions = {}): MockFetch {
+  const routes: CompiledRoute[] = [];
+  const calls: MockRequest[] = [];
+  const unmatched: MockRequest[] = [];
+
+  const toRequest = (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const request = input instanceof Request ? input : undefined;
+    const href = request ? request.url : String(input);
+    const url = toURL(href);
+    const req: MockRequest = {
+      method: (init.method || request?.method || 'GET').toUpperCase(),
+      url: href,
+      params: {},
+      query: url.searchParams,
+      headers: new Headers(init.headers ?? request?.headers),
+      body: init.body ?? request?.body,
+      init,
+    };
+    return { url, req };
+  };
+
+  const matchesMethod = (m: Method | undefined, req: MockRequest) =>
+    !m || m.toUpperCase() === req.method;
+
+  const mockFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const { url, req } = toRequest(input, init);
+    calls.push(req);
+
+    for (const compiled of routes) {
+      const { route } = compiled;
+      if (route.times !== undefined && compiled.count >= route.times) continue;
+      if (!matchesMethod(route.method, req)) continue;
+      const params = compiled.match(url);
+      if (!params) continue;
+      if (!matchesQuery(req.query, route.query)) continue;
+      if (!matchesHeaders(req.headers, route.headers)) continue;
+
+      req.params = params;
+      const replies = Array.isArray(route.reply) ? route.reply : [route.reply];
+      const reply = replies[Math.min(compiled.count, replies.length - 1)]!;
+      compiled.count++;
+      return respond(reply, req);
+    }
+
+    unmatched.push(req);
+    if (options.onUnmatched) return options.onUnmatched(req);
+    throw new Error(`No mock route matched: ${req.method} ${req.url}`);
+  }) as MockFetch;
+
+  const route = (r: MockRoute) => {
+    routes.push({ route: r, match: compilePath(r.path), count: 0 });
+    return mockFetch;
+  };
+  const method =
+    (m: Method) =>
+    (
+      path: string | RegExp,
+      reply: MockReply | MockReply[],
+      routeOptions?: RouteOptions
+    ) =>
+      route({ ...routeOptions, method: m, path, reply });
+
+  return Object.assign(mockFetch, {
+    calls,
+    unmatched,
+    route,
+    get: method('GET'),
+    post: method('POST'),
+    put: method('PUT'),
+    patch: method('PATCH'),
+    delete: method('DELETE'),
+    callsTo(m: Method, path: string | RegExp) {
+      const match = compilePath(path);
+      return calls.filter(
+        (req) => matchesMethod(m, req) && match(toURL(req.url))
+      );
+    },
+    assertNoUnmatched() {
+      if (!unmatched.length) return;
+      throw new Error(
+        [
+          'Unmatched mock requests:',
+          ...unmatched.map((req) => `  - ${req.method} ${req.url}`),
+        ].join('\n')
+      );
+    },
+    reset() {
+      routes.length = 0;
+      calls.length = 0;
+      unmatched.length = 0;
+    },
+  });
+}
@@ -0,0 +1,294 @@
+import type { MiddlewareFn } from './types';
+import { isStrippedHeader, mergeHeaders } from './util';
+
+/**
+ * An OAuth2 access token.
+ */
+export type OAuth2Token = {
+  /** The access token */
+  accessToken: string;
+  /** The token type (default: 'Bearer') */
+  tokenType?: string;
+  /** Expiry as a timestamp in milliseconds, if the token expires */
+  expiresAt?: number;
+  /** The refresh token, if the server issued one */
+  refreshToken?: string;
+  /** The granted scope */
+  scope?: string;
+};
+
+/**
+ * Configuration of a token endpoint request.
+ */
+export type OAuth2ClientOptions = {
+  /** The token endpoint URL */
+  tokenUrl: string;
+  /** The client identifier */
+  clientId: string;
+  /** The client secret, if the client is confidential */
+  clientSecret?: string;
+  /** The requested scope */
+  scope?: string | string[];
+  /**
+   * How client credentials are sent: HTTP Basic authentication ('basic') or
+   * form parameters ('body') (default: 'basic')
+   */
+  clientAuth?: 'basic' | 'body';
+  /** Extra form parameters, e.g. `audience` */
+  extraParams?: Record<string, string>;
+  /** Fetch used for token requests (default: globalThis.fetch) */
+  fetch?: typeof globalThis.fetch;
+};
+
+/**
+ * Configuration for `withOAuth2`.
+ */
+export type OAuth2Options = {
+  /** Obtains a new token, e.g. with `clientCredentialsGrant` */
+  getToken: () => Promise<OAuth2Token>;
+  /**
+   * Renews a token that carries a refresh token, e.g. with
+   * `refreshTokenGrant`. Falls back to `getToken` when it fails.
+   */
+  refreshToken?: (token: OAuth2Token) => Promise<OAuth2Token>;
+  /** Renew tokens this long before expiry in milliseconds (default: 30000) */
+  expiryMargin?: number;
+};
+
+/**
+ * Error for an unsuccessful token endpoint response (RFC 6749 section 5.2).
+ */
+export class OAuth2Error extends Error {
+  /** The `error` code, e.g. 'invalid_grant' */
+  readonly code: string;
+  /** The `error_description`, if any */
+  readonly description?: string;
+  /** The token endpoint response */
+  readonly response: Response;
+
+  constructor(
+    message: string,
+    init: { code: string; description?: string; response: Response }
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = init.code;
+    this.description = init.description;
+    this.response = init.response;
+  }
+}
+
+/**
+ * Sends a token request to an OAuth2 token endpoint.
+ *
+ * @param options - The client configuration
+ * @param params - The grant parameters
+ * @returns The issued token
+ * @throws {OAuth2Error} When the endpoint does not issue a token
+ */
+export async function requestToken(
+  options: OAuth2ClientOptions,
+  params: Record<string, string>
+): Promise<OAuth2Token> {
+  const {
+    tokenUrl,
+    clientId,
+    clientSecret,
+    scope,
+    clientAuth = 'basic',
+    extraParams,
+    fetch = globalThis.fetch,
+  } = options;
+
+  const body = new URLSearchParams({ ...extraParams, ...params });
+  if (scope) body.set('scope', Array.isArray(scope) ? scope.join(' ') : scope);
+
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (clientAuth === 'basic' && clientSecret !== undefined) {
+    const encode = (value: string) =>
+      encodeURIComponent(value).replace(/%20/g, '+');
+    headers.Authorization = `Basic ${btoa(
+      `${encode(clientId)}:${encode(clientSecret)}`
+    )}`;
+  } else {
+    body.set('client_id', clientId);
+    if (clientSecret !== undefined) body.set('client_secret', clientSecret);
+  }
+
+  const res = await fetch(tokenUrl, { method: 'POST', headers, body });
+  const data = await res.json().catch(() => ({}));
+  // A missing or malformed lifetime leaves the expiry unknown
+  const expiresIn = Number(data.expires_in ?? undefined);
+
+  if (!res.ok || typeof data.access_token !== 'string') {
+    const code =
+      typeof data.error === 'string' ? data.error : 'invalid_response';
+    const description = data.error_description;
+    throw new OAuth2Error(
+      `Token request failed with status code ${res.status}: ${code}` +
+        (description ? ` (${description})` : ''),
+      { code, description, response: res }
+    );
+  }
+
+  return {
+    accessToken: data.access_token,
+    tokenType: data.token_type,
+    expiresAt: Number.isNaN(expiresIn)
+      ? undefined
+      : Date.now() + expiresIn * 1000,
+    refreshToken: data.refresh_token ?? params.refresh_token,
+    scope: data.scope,
+  };
+}
+
+/**
+ * Creates a token source for the client credentials grant.
+ *
+ * @param options - The client configuration
+ * @returns A function requesting a new token
+ *
+ * @example
+ * ```ts
+ * withOAuth2({
+ *   getToken: clientCredentialsGrant({
+ *     tokenUrl: 'https://auth.example.com/oauth/token',
+ *     clientId: 'worker',
+ *     clientSecret: process.env.CLIENT_SECRET,
+ *     scope: ['read', 'write'],
+ *   }),
+ * })
+ * ```
+ */
+export function clientCredentialsGrant(options: OAuth2ClientOptions) {
+  return () => requestToken(options, { grant_type: 'client_credentials' });
+}
+
+/**
+ * Creates a token source for the refresh token grant.
+ *
+ * Uses the refresh token of the expiring token, or `refreshToken` for the
+ * first request. The server may rotate the refresh token with each response.
+ *
+ * @param options - The client configuration and an initial refresh token
+ * @returns A function exchanging a refresh token for a new token
+ *
+ * @example
+ * ```ts
+ * const refresh = refreshTokenGrant({
+ *   tokenUrl: 'https://auth.example.com/oauth/token',
+ *   clientId: 'cli',
+ *   refreshToken: stored.refreshToken,
+ * });
+ * withOAuth2({ getToken: () => refresh(), refreshToken: refresh })
+ * ```
+ */
+export function refreshTokenGrant(
+  options: OAuth2ClientOptions & { refreshToken?: string }
+) {
+  const { refreshToken: initial, ...client } = options;
+  return (token?: OAuth2Token) => {
+    const refreshToken = token?.refreshToken ?? initial;
+    if (!refreshToken) {
+      return Promise.reject(new Error('No refresh token available'));
+    }
+    return requestToken(client, {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+  };
+}
+
+/**
+ * Creates an OAuth2 authentication middleware.
+ *
+ * The token is cached until `expiryMargin` before it expires. Concurrent
+ * requests share a single token request. When a response is 401, the token
+ * is discarded and the request is sent once more with a new token; requests
+ * with a stream body cannot be replayed and resolve with the 401.
+ *
+ * @param options - Token sources and caching configuration
+ * @returns A middleware function that authorizes requests
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createOAuth2({ getToken: () => loadToken() }))
+ * ```
+ */
+export function createOAuth2(options: OAuth2Options): MiddlewareFn {
+  const { getToken, refreshToken, expiryMargin = 30000 } = options;
+  let token: OAuth2Token | undefined;
+  let pending: Promise<OAuth2Token> | undefined;
+
+  const isFresh = (t: OAuth2Token) =>
+    t.expiresAt === undefined ||
+    Number.isNaN(t.expiresAt) ||
+    Date.now() < t.expiresAt - expiryMargin;
+
+  const renew = () => {
+    if (!pending) {
+      const previous = token;
+      pending = (
+        previous?.refreshToken && refreshToken
+          ? refreshToken(previous).catch(() => getToken())
+          : getToken()
+      )
+        .then((t) => (token = t))
+        .finally(() => (pending = undefined));
+    }
+    return pending;
+  };
+
+  const current = () =>
+    token && isFresh(token) ? Promise.resolve(token) : renew();
+
+  const authorize = (t: OAuth2Token, init?: RequestInit): RequestInit => {
+    const type =
+      !t.tokenType || /^bearer$/i.test(t.tokenType) ? 'Bearer' : t.tokenType;
+    return {
+      ...init,
+      headers: mergeHeaders(init?.headers, {
+        Authorization: `${type} ${t.accessToken}`,
+      }),
+    };
+  };
+
+  return (f) => async (input, init) => {
+    if (isStrippedHeader(init, 'Authorization')) return f(input, init);
+
+    const used = await current();
+    const res = await f(input, authorize(used, init));
+    if (res.status !== 401 || init?.body instanceof ReadableStream) return res;
+
+    res.body?.cancel().catch(() => {});
+    // Another request may already have renewed the token
+    const next = token === used ? await renew() : await current();
+    return f(input, authorize(next, init));
+  };
+}
+
+/**
+ * Creates an OAuth2 authentication middleware configuration.
+ *
+ * Name: 'builtin:oauth2'
+ * Position: inner of 'builtin:retry' (auth is applied on each retry)
+ *
+ * @param options - Token sources and caching configuration
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * const tokenUrl = 'https://auth.example.com/oauth/token';
+ * const client = create().pipe(use, withOAuth2({
+ *   getToken: clientCredentialsGrant({ tokenUrl, clientId, clientSecret }),
+ *   refreshToken: refreshTokenGrant({ tokenUrl, clientId, clientSecret }),
+ * }));
+ * ```
+ */
+export function withOAuth2(options: OAuth2Options) {
+  return {
+    name: 'builtin:oauth2' as const,
+    inner: 'builtin:retry' as const,
+    middleware: createOAuth2(options),
+  };
+}
@@ -0,0 +1,287 @@
+import { json, querySet, throwHttpErrors } from './config';
+import { httpErrorSymbol, readDataSymbol } from './constants';
+import { fetch } from './fetch';
+import type { Fetchable } from './types';
+import { buildUrl, getData } from './util';
+
+/**
+ * A fetched page.
+ */
+export type Page<T = unknown> = {
+  /** The items of the page */
+  items: T[];
+  /** The parsed response body */
+  data: unknown;
+  /** The response */
+  response: Response;
+  /** The options the page was requested with */
+  options: Fetchable;
+  /** The 0-based page index */
+  page: number;
+};
+
+/**
+ * Decides how pages are requested.
+ */
+export type PaginationStrategy<T = unknown> = {
+  /** Prepares the request of the first page */
+  first?: (o: Fetchable) => Fetchable;
+  /** Returns the request of the page after `page`, or undefined to stop */
+  next: (
+    page: Page<T>
+  ) => Fetchable | undefined | Promise<Fetchable | undefined>;
+};
+
+/**
+ * Configuration for `paginate`.
+ */
+export type PaginateOptions<T = unknown> = {
+  /** A pagination strategy, or a function returning the next request */
+  next: PaginationStrategy<T> | PaginationStrategy<T>['next'];
+  /** Extracts the items from a page (default: the body if it is an array) */
+  items?: (data: unknown, res: Response) => T[];
+  /** Maximum number of pages to fetch (default: Infinity) */
+  maxPages?: number;
+  /** Maximum number of items to yield (default: Infinity) */
+  maxItems?: number;
+};
+
+/**
+ * An async iterable over the items of all pages.
+ */
+export type Paginator<T> = AsyncIterable<T> & {
+  /** Iterates over the pages instead of the items */
+  pages(): AsyncIterable<Page<T>>;
+};
+
+/**
+ * Parses an RFC 8288 `Link` header into a record of URLs by relation type.
+ *
+ * When several links share a relation type, the first one wins.
+ *
+ * @param value - The header value
+ * @returns A record of URLs by lowercased relation type
+ *
+ * @example
+ * ```ts
+ * parseLinkHeader('<https://api.example.com/items?page=2>; rel="next"');
+ * // => { next: 'https://api.example.com/items?page=2' }
+ * ```
+ */
+export function parseLinkHeader(value: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!value) return links;
+
+  for (const [, target, params] of value.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(params!);
+    if (!rel) continue;
+    for (const name of (rel[1] ?? rel[2]!).toLowerCase().split(/\s+/)) {
+      if (name && !(name in links)) links[name] = target!;
+    }
+  }
+  return links;
+}
+
+/**
+ * Paginates by following the `Link: <...>; rel="next"` response header
+ * (RFC 8288).
+ *
+ * The next URL is resolved against the current one, when that is absolute,
+ * and replaces the URL, query and path parameters of the request. Without an
+ * absolute URL to resolve against, the link is used as it is.
+ *
+ * @returns A pagination strategy
+ *
+ * @example
+ * ```ts
+ * client.pipe(url, '/repos/owner/repo/issues').pipe(paginate, {
+ *   next: linkPagination(),
+ * })
+ * ```
+ */
+export function linkPagination(): PaginationStrategy {
+  return {
+    next({ response, options }) {
+      const next = parseLinkHeader(response.headers.get('Link')).next;
+      if (!next) return undefined;
+
+      const { baseUrl, url, searchParams, params, ...rest } = options;
+      return {
+        ...rest,
+        url: resolveLink(next, response.url || buildUrl(options)),
+      };
+    },
+  };
+}
+
+// Resolves a link against a base URL, or keeps it when the base is relative
+function resolveLink(link: string, base: string) {
+  try {
+    return new URL(link, base).href;
+  } catch {
+    return link;
+  }
+}
+
+/**
+ * Paginates with a cursor read from the response body and sent back as a
+ * query parameter.
+ *
+ * Stops when the cursor is empty.
+ *
+ * @template D - The parsed body type (default: unknown)
+ * @param options - Where the cursor is read from and which parameter carries it
+ * @returns A pagination strategy
+ *
+ * @example
+ * ```ts
+ * // { "items": [...], "next_cursor": "abc" } => ?cursor=abc
+ * type Events = { items: Event[]; next_cursor?: string };
+ * client.pipe(url, '/events').pipe(paginate<Event>, {
+ *   next: cursorPagination<Events>({ cursor: (data) => data.next_cursor }),
+ *   items: (data) => (data as Events).items,
+ * })
+ * ```
+ */
+export function cursorPagination<D = unknown>(options: {
+  /** Reads the next cursor from the parsed body */
+  cursor: (data: D) => string | number | null | undefined;
+  /** Query parameter name (default: 'cursor') */
+  param?: string;
+}): PaginationStrategy {
+  const { cursor, param = 'cursor' } = options;
+  return {
+    next({ data, options: o }) {
+      const value = cursor(data as D);
+      if (value === null || value === undefined || value === '') {
+        return undefined;
+      }
+      return querySet(o, param, String(value)) as Fetchable;
+    },
+  };
+}
+
+/**
+ * Paginates with offset and limit query parameters.
+ *
+ * Stops at the first page with fewer than `limit` items.
+ *
+ * @param options - Page size and parameter names
+ * @returns A pagination strategy
+ *
+ * @example
+ * ```ts
+ * // ?offset=0&limit=50, ?offset=50&limit=50, ...
+ * client.pipe(url, '/users').pipe(paginate, {
+ *   next: offsetPagination({ limit: 50 }),
+ * })
+ * ```
+ */
+export function offsetPagination(options: {
+  /** Page size */
+  limit: number;
+  /** Offset of the first page (default: 0) */
+  start?: number;
+  /** Offset query parameter name (default: 'offset') */
+  offsetParam?: string;
+  /** Limit query parameter name (default: 'limit') */
+  limitParam?: string;
+}): PaginationStrategy {
+  const {
+    limit,
+    start = 0,
+    offsetParam = 'offset',
+    limitParam = 'limit',
+  } = options;
+  const at = (o: Fetchable, offset: number) =>
+    querySet(
+      querySet(o, offsetParam, String(offset)),
+      limitParam,
+      String(limit)
+    ) as Fetchable;
+
+  return {
+    first: (o) => at(o, start),
+    next({ items, options: o, page }) {
+      if (items.length < limit) return undefined;
+      return at(o, start + (page + 1) * limit);
+    },
+  };
+}
+
+/**
+ * Iterates over the items of a paginated list endpoint.
+ *
+ * Pages are requested lazily, one at a time, through the client's
+ * middlewares. Bodies are parsed with the client's data reader, or as JSON,
+ * and a response that is not ok fails the iteration with an `HTTPError`.
+ * Iteration stops when the strategy returns no next request, or when
+ * `maxPages` or `maxItems` is reached. The client's `signal` aborts it.
+ *
+ * @param o - The fetchable configuration of the first page
+ * @param options - Pagination configuration
+ * @returns An async iterable over the items, with `pages()` to iterate over pages
+ *
+ * @example
+ * ```ts
+ * const users = client.pipe(url, '/users').pipe(paginate<User>, {
+ *   next: offsetPagination({ limit: 100 }),
+ *   maxItems: 1000,
+ * });
+ * for await (const user of users) {
+ *   console.log(user.name);
+ * }
+ *
+ * for await (const page of client
+ *   .pipe(url, '/users')
+ *   .pipe(paginate, { next: linkPagination() })
+ *   .pages()) {
+ *   console.log(page.page, page.items.length);
+ * }
+ * ```
+ */
+export function paginate<T = unknown>(
+  o: Fetchable,
+  options: PaginateOptions<T>
+): Paginator<T> {
+  const {
+    next,
+    items: getItems = (data) => (Array.isArray(data) ? data : []),
+    maxPages = Infinity,
+    maxItems = Infinity,
+  } = options;
+  const strategy = typeof next === 'function' ? { next } : next;
+
+  async function* pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const withErrors = httpErrorSymbol in o ? o : throwHttpErrors(o);
+    const prepared = (
+      readDataSymbol in withErrors ? withErrors : json(withErrors)
+    ) as Fetchable;
+
+    let request: Fetchable | undefined = strategy.first
+      ? strategy.first(prepared)
+      : prepared;
+    let remaining = maxItems;
+
+    for (let page = 0; request && page < maxPages && remaining > 0; page++) {
+      if (o.signal?.aborted) throw o.signal.reason;
+
+      const response = await fetch(request);
+      const data = getData(response);
+      const items = getItems(data, response);
+      const current = { items, data, response, options: request, page };
+
+      yield { ...current, items: items.slice(0, remaining) };
+      remaining -= items.length;
+
+      request = await strategy.next(current);
+    }
+  }
+
+  return {
+    pages,
+    async *[Symbol.asyncIterator]() {
+      for await (const page of pages()) yield* page.items;
+    },
+  };
+}
@@ -0,0 +1,306 @@
+import { parseRetryAfter } from './middleware';
+import type { Fetchable, MiddlewareFn } from './types';
+
+/**
+ * Computes the rate limit bucket of a request.
+ */
+export type RateLimitKey = (
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  o: Fetchable
+) => string;
+
+/**
+ * Configuration for `withRateLimit`.
+ */
+export type RateLimitOptions = {
+  /** Number of tokens added to a bucket per interval */
+  tokensPerInterval: number;
+  /** Refill interval in milliseconds (default: 1000) */
+  interval?: number;
+  /** Bucket capacity, i.e. the largest burst (default: tokensPerInterval) */
+  burst?: number;
+  /**
+   * Which bucket a request draws from: one for the whole client ('global'),
+   * one per host ('host'), or a custom key (default: 'global')
+   */
+  key?: 'global' | 'host' | RateLimitKey;
+  /**
+   * Adjust buckets to the `RateLimit`, `RateLimit-*` and `X-RateLimit-*`
+   * response headers, and pause them on 429 / 503 with `Retry-After`
+   * (default: true)
+   */
+  respectHeaders?: boolean;
+};
+
+type Waiter = {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+  blockedUntil: number;
+  queue: Waiter[];
+  /** Requests queued or waiting for their response */
+  active: number;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+// Reset values above this are epoch seconds rather than delta seconds
+const epochThreshold = 1e9;
+
+function parseReset(value: string | null | undefined): number | undefined {
+  if (!value || !/^\d+(\.\d+)?$/.test(value.trim())) return undefined;
+  const seconds = Number(value);
+  return seconds > epochThreshold
+    ? Math.max(0, seconds * 1000 - Date.now())
+    : seconds * 1000;
+}
+
+/**
+ * Reads the remaining quota and the time until it resets from the response
+ * headers, if present.
+ */
+function parseRateLimitHeaders(headers: Headers) {
+  // IETF draft: `RateLimit: limit=100, remaining=0, reset=30`
+  const combined: Record<string, string> = {};
+  // Structured fields: `RateLimit: "default";r=0;t=30`, an item per policy
+  let policy: Record<string, string> | undefined;
+  for (const item of (headers.get('RateLimit') || '').split(',')) {
+    const params: Record<string, string> = {};
+    for (const part of item.split(';')) {
+      const [name, value] = part.split('=');
+      if (name && value) params[name.trim().toLowerCase()] = value.trim();
+    }
+    if (params.r === undefined) {
+      Object.assign(combined, params);
+    } else if (!policy || Number(params.r) < Number(policy.r)) {
+      // The policy with the least remaining quota applies
+      policy = params;
+    }
+  }
+
+  const remaining =
+    policy?.r ??
+    combined.remaining ??
+    headers.get('RateLimit-Remaining') ??
+    headers.get('X-RateLimit-Remaining');
+  const reset =
+    (policy ? policy.t : combined.reset) ??
+    headers.get('RateLimit-Reset') ??
+    headers.get('X-RateLimit-Reset');
+
+  return {
+    remaining:
+      remaining !== null && /^\d+$/.test(remaining.trim())
+        ? Number(remaining)
+        : undefined,
+    reset: parseReset(reset),
+  };
+}
+
+/**
+ * Creates a token bucket rate limiting middleware.
+ *
+ * Each request takes a token from its bucket. Buckets refill continuously at
+ * `tokensPerInterval` per `interval`, up to `burst` tokens. Requests without
+ * a token wait in a FIFO queue; a queued request is rejected with the abort
+ * reason as soon as its `signal` aborts.
+ *
+ * When `respectHeaders` is enabled, a response reporting the remaining quota
+ * caps the bucket, an exhausted quota pauses it until the reported reset,
+ * and a 429 or 503 response with `Retry-After` pauses it for that long.
+ *
+ * @param options - Rate limit configuration
+ * @returns A middleware function that throttles requests
+ * @throws {RangeError} When `tokensPerInterval` or `interval` is not
+ * positive, or `burst` is below 1
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createRateLimit({ tokensPerInterval: 10, interval: 1000 }))
+ * ```
+ */
+export function createRateLimit(options: RateLimitOptions): MiddlewareFn {
+  const {
+    tokensPerInterval,
+    interval = 1000,
+    burst = tokensPerInterval,
+    key = 'global',
+    respectHeaders = true,
+  } = options;
+  if (!(tokensPerInterval > 0)) {
+    throw new RangeError(
+      `tokensPerInterval must be positive, got ${tokensPerInterval}`
+    );
+  }
+  if (!(interval > 0)) {
+    throw new RangeError(`interval must be positive, got ${interval}`);
+  }
+  // A bucket holding less than a token would never let a request through
+  if (!(burst >= 1)) {
+    throw new RangeError(`burst must be at least 1, got ${burst}`);
+  }
+  const rate = tokensPerInterval / interval;
+
+  const getKey: RateLimitKey =
+    typeof key === 'function'
+      ? key
+      : key === 'host'
+        ? (input) => new URL(String(input), 'http://localhost').host
+        : () => '';
+
+  const buckets = new Map<string, Bucket>();
+
+  const getBucket = (name: string) => {
+    let bucket = buckets.get(name);
+    if (!bucket) {
+      bucket = {
+        tokens: burst,
+        updatedAt: Date.now(),
+        blockedUntil: 0,
+        queue: [],
+        active: 0,
+      };
+      buckets.set(name, bucket);
+    }
+    return bucket;
+  };
+
+  const refill = (bucket: Bucket) => {
+    const now = Date.now();
+    bucket.tokens = Math.min(
+      burst,
+      bucket.tokens + (now - bucket.updatedAt) * rate
+    );
+    bucket.updatedAt = now;
+  };
+
+  // A full bucket is the same as a new one, so it is dropped
+  const sweep = () => {
+    const now = Date.now();
+    for (const [name, bucket] of buckets) {
+      if (bucket.queue.length || bucket.active || bucket.blockedUntil > now) {
+        continue;
+      }
+      refill(bucket);
+      if (bucket.tokens >= burst) buckets.delete(name);
+    }
+  };
+
+  const drain = (bucket: Bucket) => {
+    refill(bucket);
+    while (
+      bucket.queue.length &&
+      bucket.tokens >= 1 &&
+      Date.now() >= bucket.blockedUntil
+    ) {
+      const waiter = bucket.queue.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort!);
+      bucket.tokens--;
+      waiter.resolve();
+    }
+    schedule(bucket);
+  };
+
+  const schedule = (bucket: Bucket) => {
+    if (bucket.timer !== undefined || !bucket.queue.length) return;
+    const wait = Math.max(
+      bucket.blockedUntil - Date.now(),
+      bucket.tokens >= 1 ? 0 : (1 - bucket.tokens) / rate
+    );
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      drain(bucket);
+    }, Math.ceil(wait));
+  };
+
+  const acquire = (bucket: Bucket, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          bucket.queue.splice(bucket.queue.indexOf(waiter), 1);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      bucket.queue.push(waiter);
+      drain(bucket);
+    });
+
+  const update = (bucket: Bucket, res: Response) => {
+    const { remaining, reset } = parseRateLimitHeaders(res.headers);
+    refill(bucket);
+    if (remaining !== undefined) {
+      bucket.tokens = Math.min(bucket.tokens, remaining);
+      if (remaining === 0 && reset !== undefined) {
+        bucket.blockedUntil = Math.max(
+          bucket.blockedUntil,
+          Date.now() + reset
+        );
+      }
+    }
+    if (res.status === 429 || res.status === 503) {
+      const retryAfter = parseRetryAfter(res.headers.get('Retry-After'));
+      if (retryAfter !== undefined) {
+        bucket.blockedUntil = Math.max(
+          bucket.blockedUntil,
+          Date.now() + retryAfter
+        );
+      }
+    }
+  };
+
+  return (f, o) => async (input, init) => {
+    sweep();
+    const bucket = getBucket(getKey(input, init, o));
+    // Held from the queue to the response so the bucket is not dropped
+    bucket.active++;
+    try {
+      await acquire(bucket, init?.signal ?? o.signal ?? undefined);
+      const res = await f(input, init);
+      if (respectHeaders) update(bucket, res);
+      return res;
+    } finally {
+      bucket.active--;
+    }
+  };
+}
+
+/**
+ * Creates a token bucket rate limiting middleware configuration.
+ *
+ * Name: 'builtin:rate-limit'
+ * Position: inner of 'builtin:retry' (every retry attempt consumes a token),
+ * outer of 'builtin:attempt-timeout' (time spent queued does not count
+ * against the attempt)
+ *
+ * @param options - Rate limit configuration
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * // At most 5 requests per second per host, bursts of up to 10
+ * client.pipe(use, withRateLimit({
+ *   tokensPerInterval: 5,
+ *   interval: 1000,
+ *   burst: 10,
+ *   key: 'host',
+ * }))
+ * ```
+ */
+export function withRateLimit(options: RateLimitOptions) {
+  return {
+    name: 'builtin:rate-limit' as const,
+    inner: 'builtin:retry' as const,
+    outer: 'builtin:attempt-timeout' as const,
+    middleware: createRateLimit(options),
+  };
+}
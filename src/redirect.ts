@@ -0,0 +1,210 @@
+import { redirectsSymbol, strippedHeadersSymbol } from './constants';
+import { RedirectError } from './error';
+import type { Fetchable, MiddlewareFn } from './types';
+import { mergeHeaders } from './util';
+
+/**
+ * A followed redirect.
+ */
+export type RedirectHop = {
+  /** The URL that answered with the redirect */
+  from: string;
+  /** The URL redirected to */
+  to: string;
+  /** The redirect status code */
+  status: number;
+  /** The method of the request sent to `to` */
+  method: string;
+};
+
+/**
+ * A redirect about to be followed, passed to `onRedirect`.
+ */
+export type Redirect = RedirectHop & {
+  /** The headers of the next request; changes are sent */
+  headers: Headers;
+  /** The redirect response */
+  response: Response;
+};
+
+/**
+ * Configuration for `withRedirects`.
+ */
+export type RedirectOptions = {
+  /** Maximum number of redirects to follow (default: 20) */
+  max?: number;
+  /**
+   * Called before each redirect is followed. Return `false` to stop and
+   * resolve with the redirect response instead.
+   */
+  onRedirect?: (
+    redirect: Redirect,
+    o: Fetchable
+  ) => void | false | Promise<void | false>;
+  /**
+   * Headers removed when a redirect leaves the origin
+   * (default: ['authorization', 'proxy-authorization', 'cookie'])
+   */
+  stripHeadersOnCrossOrigin?: string[];
+  /** Follows redirects from https to http (default: false) */
+  allowProtocolDowngrade?: boolean;
+};
+
+const redirectStatusCodes = [301, 302, 303, 307, 308];
+
+/**
+ * Returns the redirects followed by `withRedirects` to get a response.
+ *
+ * @param res - The final response
+ * @returns The redirects in order, empty when none were followed
+ *
+ * @example
+ * ```ts
+ * const res = await client.pipe(use, withRedirects()).pipe(fetch);
+ * getRedirects(res).map((hop) => `${hop.status} ${hop.to}`);
+ * // => ['301 https://example.com/new']
+ * ```
+ */
+export function getRedirects(res: Response): RedirectHop[] {
+  return (res as any)[redirectsSymbol] ?? [];
+}
+
+/**
+ * Creates a redirect middleware.
+ *
+ * Sends requests with `redirect: 'manual'` and follows 301, 302, 303, 307
+ * and 308 responses with a `Location` header. 303 switches to GET (except for
+ * HEAD), as do 301 and 302 after POST; the body and its `Content-*` headers
+ * are dropped then. 307 and 308 resend the method and body, so stream
+ * bodies cannot be redirected this way. Requests that set their own
+ * `redirect` mode are passed through.
+ *
+ * Stripped headers are not added back by the builtin auth middlewares
+ * inside this one (`withAuth`, `withOAuth2`, `withHttpAuth` and
+ * `withAwsSigV4`); custom middlewares inside it apply to every hop.
+ *
+ * @param options - Redirect policy
+ * @returns A middleware function that follows redirects
+ * @throws {RedirectError} When `max` is exceeded or a redirect would
+ * downgrade https to http
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, createRedirects({ max: 5 }))
+ * ```
+ */
+export function createRedirects(options: RedirectOptions = {}): MiddlewareFn {
+  const {
+    max = 20,
+    onRedirect,
+    stripHeadersOnCrossOrigin = [
+      'authorization',
+      'proxy-authorization',
+      'cookie',
+    ],
+    allowProtocolDowngrade = false,
+  } = options;
+
+  return (f, o) => async (input, init) => {
+    if (init?.redirect && init.redirect !== 'follow') return f(input, init);
+
+    let url = String(input);
+    let method = (init?.method || o.method || 'GET').toUpperCase();
+    let hopInit: RequestInit = { ...init, redirect: 'manual' };
+    const redirects: RedirectHop[] = [];
+    const stripped = new Set<string>();
+
+    for (;;) {
+      const res = await f(url, hopInit);
+      const location = res.headers.get('Location');
+      if (!redirectStatusCodes.includes(res.status) || location === null) {
+        return Object.assign(res, { [redirectsSymbol]: redirects });
+      }
+
+      const from = new URL(url);
+      const to = new URL(location, url);
+      if (redirects.length >= max) {
+        throw new RedirectError(`Too many redirects: ${method} ${url}`, {
+          url,
+          method,
+          options: o,
+          response: res,
+          redirects,
+        });
+      }
+      if (
+        !allowProtocolDowngrade &&
+        from.protocol === 'https:' &&
+        to.protocol === 'http:'
+      ) {
+        throw new RedirectError(
+          `Redirect to insecure ${to.href} refused: ${method} ${url}`,
+          { url, method, options: o, response: res, redirects }
+        );
+      }
+
+      const headers = new Headers(hopInit.headers);
+      // 303 and, for historical reasons, 301/302 after POST switch to GET
+      if (
+        (res.status === 303 && method !== 'HEAD') ||
+        ([301, 302].includes(res.status) && method === 'POST')
+      ) {
+        method = 'GET';
+        hopInit = { ...hopInit, body: undefined };
+        for (const name of [...headers.keys()]) {
+          if (name.startsWith('content-')) headers.delete(name);
+        }
+      }
+      if (to.origin !== from.origin) {
+        for (const name of stripHeadersOnCrossOrigin) {
+          headers.delete(name);
+          stripped.add(name.toLowerCase());
+        }
+      }
+
+      const hop = { from: url, to: to.href, status: res.status, method };
+      const follow = await onRedirect?.({ ...hop, headers, response: res }, o);
+      if (follow === false) {
+        return Object.assign(res, { [redirectsSymbol]: redirects });
+      }
+
+      res.body?.cancel().catch(() => {});
+      redirects.push(hop);
+      url = to.href;
+      hopInit = {
+        ...hopInit,
+        method,
+        headers: mergeHeaders(headers),
+        ...(stripped.size ? { [strippedHeadersSymbol]: [...stripped] } : {}),
+      };
+    }
+  };
+}
+
+/**
+ * Creates a redirect middleware configuration.
+ *
+ * Name: 'builtin:redirects'
+ * Position: outer of 'builtin:retry' (each hop is retried on its own)
+ *
+ * @param options - Redirect policy
+ * @returns A middleware configuration with proper naming and positioning
+ *
+ * @example
+ * ```ts
+ * client.pipe(use, withRedirects({
+ *   max: 5,
+ *   onRedirect: (redirect) => {
+ *     // Stay on our own hosts
+ *     if (!redirect.to.startsWith('https://example.com/')) return false;
+ *   },
+ * }))
+ * ```
+ */
+export function withRedirects(options: RedirectOptions = {}) {
+  return {
+    name: 'builtin:redirects' as const,
+    outer: 'builtin:retry' as const,
+    middleware: createRedirects(options),
+  };
+}
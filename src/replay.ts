@@ -0,0 +1,380 @@
+/**
+ * How `recordReplayFetch` handles requests.
+ * - `record`: always sends the request and records it (fixture files written
+ *   by this adapter are started afresh)
+ * - `replay`: only replays recorded fixtures, never touches the network
+ * - `auto`: replays a matching fixture, or sends and records the request
+ */
+export type RecordReplayMode = 'record' | 'replay' | 'auto';
+
+/**
+ * A recorded request or response body. Bodies that are not valid UTF-8 are
+ * stored as base64.
+ */
+export type FixtureBody = {
+  encoding: 'utf8' | 'base64';
+  data: string;
+};
+
+/**
+ * A recorded request.
+ */
+export type FixtureRequest = {
+  method: string;
+  url: string;
+  /** Lowercased request headers */
+  headers: Record<string, string>;
+  body: FixtureBody | null;
+};
+
+/**
+ * A recorded response.
+ */
+export type FixtureResponse = {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: FixtureBody | null;
+};
+
+/**
+ * A recorded request/response pair.
+ */
+export type Fixture = {
+  request: FixtureRequest;
+  response: FixtureResponse;
+};
+
+/**
+ * Storage backend for fixture files.
+ *
+ * `name` is a file name derived from the request method, host and path; all
+ * fixtures recorded for it are read and written together.
+ */
+export type FixtureStore = {
+  read(name: string): Promise<Fixture[] | undefined>;
+  write(name: string, fixtures: Fixture[]): Promise<void>;
+};
+
+/**
+ * Configuration for `recordReplayFetch`.
+ */
+export type RecordReplayOptions = (
+  | {
+      /** Directory of the JSON fixture files (Node.js only) */
+      dir: string;
+    }
+  | {
+      /** Custom fixture storage */
+      store: FixtureStore;
+    }
+) & {
+  /** How requests are handled (default: 'auto') */
+  mode?: RecordReplayMode;
+  /** Sends requests while recording (default: globalThis.fetch) */
+  fetch?: typeof globalThis.fetch;
+  /** Request headers ignored when matching (case-insensitive) */
+  ignoreHeaders?: string[];
+  /** Sort query parameters before comparing URLs (default: true) */
+  normalizeQuery?: boolean;
+  /**
+   * Whether request bodies must be equal to match, or a custom comparison of
+   * the recorded and actual body text (base64 for binary bodies)
+   * (default: true)
+   */
+  matchBody?: boolean | ((recorded: string, actual: string) => boolean);
+  /**
+   * Headers whose values are replaced with '[REDACTED]' before a fixture is
+   * written. Redacted request headers are ignored when matching.
+   * (default: authorization, proxy-authorization, cookie, set-cookie, x-api-key)
+   */
+  redactHeaders?: string[];
+  /** Transforms a fixture before it is written, e.g. to scrub body secrets */
+  redact?: (fixture: Fixture) => Fixture;
+};
+
+const defaultRedactHeaders = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+
+const nullBodyStatusCodes = [101, 204, 205, 304];
+
+type FileSystem = {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+};
+
+/**
+ * Creates a fixture store backed by a directory of JSON files.
+ *
+ * `node:fs/promises` is imported lazily, so this module can still be loaded
+ * outside Node.js.
+ */
+function createDirStore(dir: string): FixtureStore {
+  const fs = import(/* @vite-ignore */ 'node:fs/promises' as string).then(
+    (m) => m as FileSystem
+  );
+  const path = (name: string) => `${dir.replace(/[\\/]+$/, '')}/${name}`;
+
+  return {
+    async read(name) {
+      try {
+        return JSON.parse(await (await fs).readFile(path(name), 'utf8'));
+      } catch (e) {
+        if ((e as { code?: string }).code === 'ENOENT') return undefined;
+        throw e;
+      }
+    },
+    async write(name, fixtures) {
+      await (await fs).mkdir(dir, { recursive: true });
+      await (await fs).writeFile(
+        path(name),
+        `${JSON.stringify(fixtures, null, 2)}\n`
+      );
+    },
+  };
+}
+
+function encodeBody(buffer: ArrayBuffer): FixtureBody | null {
+  if (!buffer.byteLength) return null;
+  try {
+    const data = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return { encoding: 'utf8', data };
+  } catch {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return { encoding: 'base64', data: btoa(binary) };
+  }
+}
+
+function decodeBody(body: FixtureBody | null): BodyInit | null {
+  if (!body) return null;
+  if (body.encoding === 'utf8') return body.data;
+  return Uint8Array.from(atob(body.data), (c) => c.charCodeAt(0)).buffer;
+}
+
+// Relative URLs (no baseUrl configured) are resolved against a dummy origin
+function toURL(url: string): URL {
+  return new URL(url, 'http://localhost');
+}
+
+function fixtureName(method: string, url: string): string {
+  const { host, pathname } = toURL(url);
+  const name = `${method}_${host}${pathname}`
+    .replace(/[^\w.-]+/g, '_')
+    .slice(0, 200);
+  return `${name}.json`;
+}
+
+async function toFixtureRequest(
+  input: RequestInfo | URL,
+  init: RequestInit = {}
+): Promise<FixtureRequest> {
+  const url = input instanceof Request ? input.url : String(input);
+  const request = new Request(
+    input instanceof Request ? input.clone() : toURL(url),
+    init
+  );
+  return {
+    method: request.method,
+    url,
+    headers: Object.fromEntries(request.headers),
+    body: request.body ? encodeBody(await request.arrayBuffer()) : null,
+  };
+}
+
+async function toFixtureResponse(res: Response): Promise<FixtureResponse> {
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    headers: [...res.headers],
+    body: encodeBody(await res.clone().arrayBuffer()),
+  };
+}
+
+function toResponse(fixture: FixtureResponse): Response {
+  return new Response(
+    nullBodyStatusCodes.includes(fixture.status)
+      ? null
+      : decodeBody(fixture.body),
+    {
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers,
+    }
+  );
+}
+
+/**
+ * Creates a fetch that records real request/response pairs to JSON fixture
+ * files and replays them offline.
+ *
+ * Plug it into the `fetch` option of an integration suite. Fixtures are
+ * grouped in one file per method, host and path. A request matches a
+ * recorded one when the method, URL, headers and body are equal, subject to
+ * `normalizeQuery`, `ignoreHeaders` and `matchBody`. Identical requests are
+ * replayed in recorded order, repeating the last fixture once all are used.
+ * Secrets are redacted before a fixture is written.
+ *
+ * @param options - Record and replay configuration
+ * @returns A fetch implementation
+ *
+ * @example
+ * ```ts
+ * const client = create({
+ *   baseUrl: 'https://api.example.com',
+ *   fetch: recordReplayFetch({
+ *     dir: 'test/fixtures',
+ *     mode: process.env.CI ? 'replay' : 'auto',
+ *     ignoreHeaders: ['x-request-id'],
+ *   }),
+ * });
+ * ```
+ */
+export function recordReplayFetch(
+  options: RecordReplayOptions
+): typeof globalThis.fetch {
+  const {
+    mode = 'auto',
+    fetch: send = (...params) => globalThis.fetch(...params),
+    ignoreHeaders = [],
+    normalizeQuery = true,
+    matchBody = true,
+    redactHeaders = defaultRedactHeaders,
+    redact,
+  } = options;
+  const store =
+    'store' in options ? options.store : createDirStore(options.dir);
+
+  const redacted = redactHeaders.map((name) => name.toLowerCase());
+  const ignored = new Set([
+    ...ignoreHeaders.map((name) => name.toLowerCase()),
+    ...redacted,
+  ]);
+
+  // Fixtures per file name, loaded once and kept in sync with the store
+  const files = new Map<string, Promise<Fixture[]>>();
+  const writes = new Map<string, Promise<void>>();
+  const used = new Set<Fixture>();
+
+  const load = (name: string) => {
+    if (!files.has(name)) {
+      files.set(
+        name,
+        mode === 'record'
+          ? Promise.resolve([])
+          : store.read(name).then((fixtures) => fixtures || [])
+      );
+    }
+    return files.get(name)!;
+  };
+
+  const normalizeUrl = (url: string) => {
+    if (!normalizeQuery) return url;
+    const u = toURL(url);
+    u.searchParams.sort();
+    return u.href;
+  };
+
+  const bodyText = (body: FixtureBody | null) => body?.data ?? '';
+
+  const matches = (recorded: FixtureRequest, actual: FixtureRequest) => {
+    if (recorded.method !== actual.method) return false;
+    if (normalizeUrl(recorded.url) !== normalizeUrl(actual.url)) return false;
+
+    const names = new Set([
+      ...Object.keys(recorded.headers),
+      ...Object.keys(actual.headers),
+    ]);
+    for (const name of names) {
+      if (ignored.has(name)) continue;
+      if (recorded.headers[name] !== actual.headers[name]) return false;
+    }
+
+    if (typeof matchBody === 'function') {
+      return matchBody(bodyText(recorded.body), bodyText(actual.body));
+    }
+    return !matchBody || bodyText(recorded.body) === bodyText(actual.body);
+  };
+
+  const redactFixture = (fixture: Fixture): Fixture => {
+    const hide = (name: string, value: string) =>
+      redacted.includes(name.toLowerCase()) ? '[REDACTED]' : value;
+    const result = {
+      request: {
+        ...fixture.request,
+        headers: Object.fromEntries(
+          Object.entries(fixture.request.headers).map(([name, value]) => [
+            name,
+            hide(name, value),
+          ])
+        ),
+      },
+      response: {
+        ...fixture.response,
+        headers: fixture.response.headers.map(
+          ([name, value]) => [name, hide(name, value)] as [string, string]
+        ),
+      },
+    };
+    return redact ? redact(result) : result;
+  };
+
+  const record = async (
+    name: string,
+    request: FixtureRequest,
+    res: Response
+  ) => {
+    const fixtures = await load(name);
+    fixtures.push(
+      redactFixture({ request, response: await toFixtureResponse(res) })
+    );
+    // Serialize writes to the same file
+    const write = (writes.get(name) || Promise.resolve()).then(() =>
+      store.write(name, fixtures)
+    );
+    writes.set(name, write);
+    await write;
+  };
+
+  return async (input, init) => {
+    const request = await toFixtureRequest(input, init);
+    const name = fixtureName(request.method, request.url);
+
+    if (mode !== 'record') {
+      const candidates = (await load(name)).filter((fixture) =>
+        matches(fixture.request, request)
+      );
+      const fixture =
+        candidates.find((candidate) => !used.has(candidate)) ||
+        candidates[candidates.length - 1];
+      if (fixture) {
+        used.add(fixture);
+        return toResponse(fixture.response);
+      }
+      if (mode === 'replay') {
+        throw new Error(
+          `No recorded fixture for ${request.method} ${request.url}`
+        );
+      }
+    }
+
+    // The request body may be a stream that was consumed while reading it
+    const res = await send(
+      input,
+      init?.body instanceof ReadableStream
+        ? { ...init, body: decodeBody(request.body) }
+        : init
+    );
+    await record(name, request, res);
+    return res;
+  };
+}
@@ -0,0 +1,311 @@
+import { header } from './config';
+import { sseSymbol } from './constants';
+import { HTTPError, createHTTPError } from './error';
+import { fetch } from './fetch';
+import type { CheckPathParams, Fetchable, Options } from './types';
+import { buildUrl, sleep } from './util';
+
+/**
+ * A message received from an event stream.
+ */
+export type SSEMessage<T = string> = {
+  /** The event type (default: 'message') */
+  event: string;
+  /** The event data, parsed by the `parse` option when set */
+  data: T;
+  /** The last event ID */
+  id: string;
+  /** The reconnection time in milliseconds sent with this event, if any */
+  retry?: number;
+};
+
+/**
+ * Configuration for `sse`.
+ */
+export type SSEOptions<T = string> = {
+  /** Parses the data of each message (e.g. `JSON.parse`) */
+  parse?: (data: string) => T;
+  /** Reconnect when the connection closes or fails (default: true) */
+  reconnect?: boolean;
+  /**
+   * Reconnection delay in milliseconds until the server sends a `retry`
+   * field (default: 3000)
+   */
+  retry?: number;
+  /** Maximum number of consecutive failed reconnections (default: Infinity) */
+  maxRetries?: number;
+  /** Initial `Last-Event-ID` to resume from */
+  lastEventId?: string;
+};
+
+type InferEventData<T> = T extends { [sseSymbol]: SSEOptions<infer D> }
+  ? D
+  : string;
+
+async function* lines(stream: ReadableStream<Uint8Array>) {
+  // TextDecoder strips a leading BOM
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      let match: RegExpExecArray | null;
+      while ((match = /\r\n|\r|\n/.exec(buffer))) {
+        // A trailing CR may be the first half of a CRLF split across chunks
+        if (match[0] === '\r' && match.index === buffer.length - 1) break;
+        yield buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+      }
+    }
+  } finally {
+    // Not awaited: cancelling one branch of a cloned body waits for the other
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Parses a `text/event-stream` body into messages.
+ *
+ * Implements the parsing rules of the HTML Living Standard: lines end with
+ * CRLF, LF or CR, `data` lines are joined with newlines, comments and unknown
+ * fields are ignored, the last event ID persists across events, and an event
+ * that is not terminated by a blank line is discarded.
+ *
+ * @param stream - The response body
+ * @param onRetry - Called with the reconnection time of each valid `retry` field
+ * @param onId - Called with the ID of each terminated event with an `id`
+ * field, even one without data that is not yielded
+ * @returns An async generator of messages
+ *
+ * @example
+ * ```ts
+ * const res = await client.pipe(url, '/events').pipe(fetch);
+ * for await (const message of parseEventStream(res.body!)) {
+ *   console.log(message.event, message.data);
+ * }
+ * ```
+ */
+export async function* parseEventStream(
+  stream: ReadableStream<Uint8Array>,
+  onRetry?: (ms: number) => void,
+  onId?: (id: string) => void
+): AsyncGenerator<SSEMessage> {
+  let event = '';
+  let data = '';
+  let hasData = false;
+  let id = '';
+  let hasId = false;
+  let retry: number | undefined;
+
+  for await (const line of lines(stream)) {
+    if (line === '') {
+      if (hasId) onId?.(id);
+      if (hasData) {
+        yield {
+          event: event || 'message',
+          data: data.slice(0, -1),
+          id,
+          ...(retry === undefined ? {} : { retry }),
+        };
+      }
+      event = '';
+      data = '';
+      hasData = false;
+      hasId = false;
+      retry = undefined;
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data += `${value}\n`;
+        hasData = true;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          id = value;
+          hasId = true;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retry = Number(value);
+          onRetry?.(retry);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Configures the request for a Server-Sent Events stream.
+ *
+ * Sets `Accept: text/event-stream` and `Cache-Control: no-cache`, and stores
+ * the stream options used by `fetchEventStream`. When `parse` is set, the
+ * type of the message data is inferred from it.
+ *
+ * @param o - The options object to modify
+ * @param options - Event stream configuration
+ * @returns A new options object configured for an event stream
+ *
+ * @example
+ * ```ts
+ * type Tick = { price: number };
+ *
+ * const stream = client
+ *   .pipe(url, '/ticks')
+ *   .pipe(sse, { parse: (data): Tick => JSON.parse(data) })
+ *   .pipe(fetchEventStream);
+ * ```
+ */
+export function sse<T extends Options, D = string>(
+  o: T,
+  options: SSEOptions<D> = {}
+) {
+  const configured = header(
+    header(o, 'Accept', 'text/event-stream'),
+    'Cache-Control',
+    'no-cache'
+  );
+  return {
+    ...configured,
+    [sseSymbol]: options,
+  } as Omit<typeof configured, typeof sseSymbol> & {
+    [sseSymbol]: SSEOptions<D>;
+  };
+}
+
+/**
+ * Connects to a Server-Sent Events stream.
+ *
+ * Returns an async iterable of messages. The request goes through the
+ * client's middlewares (auth, logging, etc.) and honors its `signal`. When
+ * the connection closes, fails with a network error or times out, it
+ * reconnects after the reconnection delay (which the server may change with
+ * `retry`), sending the last event ID in the `Last-Event-ID` header. A
+ * response that is not ok or not an event stream fails the iteration with an
+ * `HTTPError`, and a `204 No Content` response ends it. Breaking out of the
+ * loop closes the connection.
+ *
+ * Uses the options set by `sse`, or its defaults.
+ *
+ * @param o - The fetchable configuration
+ * @returns An async iterable of messages
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ *
+ * for await (const message of client
+ *   .pipe(url, '/notifications')
+ *   .pipe(signal, controller.signal)
+ *   .pipe(sse, { parse: JSON.parse })
+ *   .pipe(fetchEventStream)) {
+ *   if (message.event === 'done') break;
+ *   console.log(message.data);
+ * }
+ * ```
+ */
+export async function* fetchEventStream<O extends Fetchable>(
+  o: O & CheckPathParams<O>
+): AsyncGenerator<SSEMessage<InferEventData<O>>, void, undefined> {
+  const configured = sseSymbol in o ? o : sse(o);
+  const {
+    parse,
+    reconnect = true,
+    retry = 3000,
+    maxRetries = Infinity,
+    lastEventId = '',
+  } = configured[sseSymbol] as SSEOptions<InferEventData<O>>;
+  const signal = o.signal ?? undefined;
+
+  let delay = retry;
+  let id = lastEventId;
+  let failures = 0;
+
+  for (;;) {
+    const options = id ? header(configured, 'Last-Event-ID', id) : configured;
+
+    let res: Response | undefined;
+    try {
+      res = await fetch(options as Fetchable);
+    } catch (e) {
+      // Errors with a response are final, network errors and timeouts are not
+      if (signal?.aborted || (e instanceof HTTPError && e.response)) throw e;
+      if (!reconnect || failures >= maxRetries) throw e;
+    }
+
+    if (res) {
+      if (res.status === 204) return;
+      if (!res.ok) {
+        await res.body?.cancel().catch(() => {});
+        throw createHTTPError(res, res.url || buildUrl(o), o);
+      }
+
+      const type = res.headers.get('Content-Type') || '';
+      if (!/^text\/event-stream\b/i.test(type) || !res.body) {
+        await res.body?.cancel().catch(() => {});
+        throw new HTTPError(
+          `Expected a text/event-stream response but got '${type}'`,
+          {
+            url: res.url || buildUrl(o),
+            method: (o.method || 'GET').toUpperCase(),
+            options: o,
+            response: res,
+          }
+        );
+      }
+
+      failures = 0;
+      const messages = parseEventStream(
+        res.body,
+        (ms) => {
+          delay = ms;
+        },
+        (lastId) => {
+          id = lastId;
+        }
+      );
+      try {
+        for (;;) {
+          let result: IteratorResult<SSEMessage>;
+          try {
+            result = await messages.next();
+          } catch (e) {
+            if (signal?.aborted) throw signal.reason;
+            if (!reconnect) throw e;
+            break;
+          }
+          if (result.done) break;
+
+          yield {
+            ...result.value,
+            data: parse
+              ? parse(result.value.data)
+              : (result.value.data as InferEventData<O>),
+          };
+        }
+      } finally {
+        await messages.return(undefined);
+      }
+      if (!reconnect) return;
+    }
+
+    failures++;
+    await sleep(delay, signal);
+    if (signal?.aborted) throw signal.reason;
+  }
+}
@@ -0,0 +1,199 @@
+import { header } from './config';
+import { streamReaderSymbol } from './constants';
+import { createHTTPError } from './error';
+import { fetch } from './fetch';
+import type { CheckPathParams, Fetchable, Options } from './types';
+import { buildUrl } from './util';
+
+/**
+ * Reads a response body incrementally.
+ */
+export type StreamReader<T = unknown> = (
+  body: ReadableStream<Uint8Array>
+) => AsyncIterable<T>;
+
+/**
+ * Configuration for `ndjson` and `parseNDJSON`.
+ */
+export type NDJSONOptions = {
+  /** Maximum length of a line in characters (default: 1048576) */
+  maxLineLength?: number;
+  /** Parses a line (default: JSON.parse) */
+  parse?: (line: string) => unknown;
+};
+
+/**
+ * Error for a line of an NDJSON stream that is too long or invalid.
+ */
+export class NDJSONParseError extends Error {
+  /** The 1-based number of the failing line */
+  readonly lineNumber: number;
+  /** The failing line, truncated to 200 characters */
+  readonly line: string;
+
+  constructor(
+    message: string,
+    init: { lineNumber: number; line: string; cause?: unknown }
+  ) {
+    super(message, { cause: init.cause });
+    this.name = new.target.name;
+    this.lineNumber = init.lineNumber;
+    this.line = init.line.slice(0, 200);
+  }
+}
+
+/**
+ * Parses a newline-delimited JSON (NDJSON / JSON Lines) body incrementally.
+ *
+ * Lines end with LF or CRLF, and blank lines are skipped. Only the current
+ * line is buffered, so bodies of any size can be read with bounded memory.
+ *
+ * @param stream - The response body
+ * @param options - Parser configuration
+ * @returns An async generator of the parsed lines
+ * @throws {NDJSONParseError} When a line exceeds `maxLineLength` or cannot be parsed
+ *
+ * @example
+ * ```ts
+ * const res = await client.pipe(url, '/export').pipe(fetch);
+ * for await (const row of parseNDJSON(res.body!)) {
+ *   console.log(row);
+ * }
+ * ```
+ */
+export async function* parseNDJSON(
+  stream: ReadableStream<Uint8Array>,
+  options: NDJSONOptions = {}
+): AsyncGenerator<unknown, void, undefined> {
+  const { maxLineLength = 1048576, parse = JSON.parse } = options;
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let buffer = '';
+  let lineNumber = 0;
+
+  const checkLength = (line: string) => {
+    if (line.length > maxLineLength) {
+      throw new NDJSONParseError(
+        `Line ${lineNumber + 1} exceeds the maximum length of ` +
+          `${maxLineLength} characters`,
+        { lineNumber: lineNumber + 1, line }
+      );
+    }
+  };
+
+  // Returns undefined for blank lines
+  const parseLine = (line: string) => {
+    if (line.endsWith('\r')) line = line.slice(0, -1);
+    checkLength(line);
+    lineNumber++;
+    if (!line.trim()) return undefined;
+    try {
+      return { value: parse(line) };
+    } catch (e) {
+      throw new NDJSONParseError(
+        `Failed to parse line ${lineNumber}: ${(e as Error).message}`,
+        { lineNumber, line, cause: e }
+      );
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      let index: number;
+      while ((index = buffer.indexOf('\n')) !== -1) {
+        const result = parseLine(buffer.slice(0, index));
+        buffer = buffer.slice(index + 1);
+        if (result) yield result.value;
+      }
+
+      if (done) {
+        // The last line may not end with a newline
+        if (buffer) {
+          const result = parseLine(buffer);
+          if (result) yield result.value;
+        }
+        return;
+      }
+      // Fail early instead of buffering an unterminated oversized line
+      checkLength(buffer);
+    }
+  } finally {
+    // Not awaited: cancelling one branch of a cloned body waits for the other
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Sets up newline-delimited JSON streaming for `fetchStream`.
+ *
+ * Sets `Accept: application/x-ndjson` and registers the NDJSON stream reader.
+ *
+ * @param o - The options object to modify
+ * @param options - Parser configuration
+ * @returns A new options object with the NDJSON stream reader set
+ *
+ * @example
+ * ```ts
+ * client.pipe(url, '/logs').pipe(ndjson, { maxLineLength: 65536 })
+ * ```
+ */
+export function ndjson<T extends Options>(o: T, options: NDJSONOptions = {}) {
+  const reader: StreamReader = (body) => parseNDJSON(body, options);
+  return {
+    ...header(o, 'Accept', 'application/x-ndjson'),
+    [streamReaderSymbol]: reader,
+  };
+}
+
+/**
+ * Executes a fetch request and yields the parsed body incrementally.
+ *
+ * Unlike `fetchData`, the body is never buffered as a whole: items are
+ * yielded as soon as they are read. Uses the stream reader set by `ndjson`,
+ * or NDJSON with its defaults. A reader set by `json`, `text` or `data` is
+ * bypassed, as it would buffer the body first. A response that is not ok
+ * fails with an `HTTPError` and its body is cancelled. Breaking out of the
+ * loop cancels the body.
+ *
+ * @template T - The expected item type
+ * @param o - The fetchable configuration
+ * @returns An async generator of the parsed items
+ *
+ * @example
+ * ```ts
+ * type LogEntry = { level: string; message: string };
+ *
+ * for await (const entry of client
+ *   .pipe(url, '/logs/export')
+ *   .pipe(fetchStream<LogEntry>)) {
+ *   console.log(entry.level, entry.message);
+ * }
+ * ```
+ */
+export async function* fetchStream<
+  T = unknown,
+  O extends Fetchable = Fetchable
+>(o: O & CheckPathParams<O>): AsyncGenerator<T, void, undefined> {
+  const configured = (streamReaderSymbol in o ? o : ndjson(o)) as Fetchable & {
+    [streamReaderSymbol]: StreamReader<T>;
+  };
+  const res = await fetch({
+    ...configured,
+    middlewares: configured.middlewares?.filter(
+      (m) => m.name !== 'builtin:data'
+    ),
+  });
+
+  if (!res.ok) {
+    await res.body?.cancel();
+    throw createHTTPError(res, res.url || buildUrl(o), o);
+  }
+  if (!res.body) return;
+
+  yield* configured[streamReaderSymbol](res.body);
+}
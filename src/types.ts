@@ -1,3 +1,5 @@
+import type { validateSymbol } from './constants';
+
 /**
  * HTTP request method types.
  * Includes common methods and allows custom string values.
@@ -78,10 +80,10 @@ export type MiddlewareName =
 export type MiddlewareConfig = {
   /** Unique name for this middleware (used for positioning by other middlewares) */
   name?: MiddlewareName;
-  /** Place this middleware outside (wrapping) the specified middleware */
-  outer?: MiddlewareName;
-  /** Place this middleware inside (wrapped by) the specified middleware */
-  inner?: MiddlewareName;
+  /** Place this middleware outside (wrapping) the specified middleware(s) */
+  outer?: MiddlewareName | readonly MiddlewareName[];
+  /** Place this middleware inside (wrapped by) the specified middleware(s) */
+  inner?: MiddlewareName | readonly MiddlewareName[];
   /** The actual middleware function */
   middleware: MiddlewareFn;
 };
@@ -97,8 +99,8 @@ export type MiddlewareInput = MiddlewareFn | MiddlewareConfig;
  */
 export type MiddlewareEntry = {
   name: MiddlewareName;
-  outer?: MiddlewareName;
-  inner?: MiddlewareName;
+  outer?: MiddlewareName | readonly MiddlewareName[];
+  inner?: MiddlewareName | readonly MiddlewareName[];
   middleware: MiddlewareFn;
 };
 
@@ -194,6 +196,70 @@ export type SetQueryType<
   ? { [P in K]: V }
   : Prettify<Omit<Q, K> & Record<K, V>>;
 
+/**
+ * A primitive value accepted by the object query serializer.
+ */
+export type QueryPrimitive = string | number | boolean | Date | null | undefined;
+
+/**
+ * An object accepted by the object query serializer.
+ * Values can be primitives, arrays, or nested objects.
+ */
+export type QueryObject = {
+  [key: string]:
+    | QueryPrimitive
+    | QueryObject
+    | readonly (QueryPrimitive | QueryObject)[];
+};
+
+/**
+ * Options for the object query serializer.
+ */
+export type QueryObjectOptions = {
+  /**
+   * How arrays are serialized (default: 'repeat')
+   * - `repeat`: `a=1&a=2`
+   * - `brackets`: `a[]=1&a[]=2`
+   * - `comma`: `a=1,2`
+   * - `index`: `a[0]=1&a[1]=2`
+   */
+  arrayFormat?: 'repeat' | 'brackets' | 'comma' | 'index';
+  /**
+   * How nested object keys are serialized (default: 'brackets')
+   * - `brackets`: `a[b]=1`
+   * - `dots`: `a.b=1`
+   */
+  nested?: 'brackets' | 'dots';
+  /** Skip `null` values instead of serializing them as empty strings */
+  skipNull?: boolean;
+  /** Skip empty strings and empty arrays */
+  skipEmpty?: boolean;
+};
+
+/**
+ * Convert a primitive query value to its serialized string type.
+ */
+type QueryValueString<V> = V extends Date
+  ? string
+  : V extends string | number | boolean
+  ? `${V}`
+  : never;
+
+/**
+ * Convert a flat object to a query type for IDE hints.
+ * Nested objects are not tracked; `null` and `undefined` values are dropped.
+ * { page: 1, tags: ['a', 'b'] } => { page: '1', tags: ('a' | 'b')[] }
+ */
+export type ObjectToQueryType<T> = Prettify<{
+  [K in keyof T as T[K] extends QueryPrimitive | readonly QueryPrimitive[]
+    ? [NonNullable<T[K]>] extends [never]
+      ? never
+      : K & string
+    : never]: NonNullable<T[K]> extends readonly (infer E)[]
+    ? QueryValueString<E>[]
+    : QueryValueString<NonNullable<T[K]>>;
+}>;
+
 /**
  * URLSearchParams with type information for IDE hints.
  * The phantom type Q tracks the query parameter types at compile time.
@@ -201,6 +267,59 @@ export type SetQueryType<
 export type TypedURLSearchParams<Q extends QueryType = QueryType> =
   URLSearchParams & { _type?: Prettify<Q> };
 
+/**
+ * Values for path parameters, keyed by parameter name.
+ */
+export type PathParams = Record<string, string | number>;
+
+/**
+ * Cuts a raw path parameter segment at the first non-name character.
+ * 'id.json' => 'id'
+ */
+type TrimParamName<S extends string> = S extends `${infer N}.${string}`
+  ? TrimParamName<N>
+  : S extends `${infer N}-${string}`
+  ? TrimParamName<N>
+  : S extends `${infer N}?${string}`
+  ? N
+  : S extends `${infer N}#${string}`
+  ? N
+  : S;
+
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+/**
+ * Drops segments that cannot be parameter names,
+ * like the empty name after 'https:' or a port number.
+ */
+type ParamName<S extends string> = TrimParamName<S> extends infer N extends
+  string
+  ? N extends '' | `${Digit}${string}`
+    ? never
+    : N
+  : never;
+
+/**
+ * Extract path parameter names from a URL template.
+ * '/users/:userId/posts/:postId' => 'userId' | 'postId'
+ */
+export type PathParamNames<U extends string> =
+  U extends `${string}:${infer P}/${infer Rest}`
+    ? ParamName<P> | PathParamNames<Rest>
+    : U extends `${string}:${infer P}`
+    ? ParamName<P>
+    : never;
+
+/**
+ * Requires `params` to cover every path parameter of the URL template.
+ * Resolves to `unknown` when the URL has no parameters (or is not a literal).
+ */
+export type CheckPathParams<T> = T extends { url: infer U extends string }
+  ? [PathParamNames<U>] extends [never]
+    ? unknown
+    : { params: Record<PathParamNames<U>, string | number> }
+  : unknown;
+
 /**
  * Configuration options for fetch requests.
  * Extends RequestInit with additional properties for URL handling, middleware, etc.
@@ -217,6 +336,8 @@ export type Options<Q extends QueryType = QueryType> = Omit<
   url?: string;
   /** Base URL prefix for all requests */
   baseUrl?: string;
+  /** Values substituted for `:name` path parameters of `url` (in toFetchParams) */
+  params?: PathParams;
   /** Query parameters to append to the URL (combined in toFetchParams). Carries type information for IDE hints. */
   searchParams?: TypedURLSearchParams<Q>;
   /** Custom fetch implementation (defaults to globalThis.fetch) */
@@ -225,6 +346,8 @@ export type Options<Q extends QueryType = QueryType> = Omit<
   middlewares?: MiddlewareEntry[];
   /** AbortSignal for request cancellation */
   signal?: AbortSignal;
+  /** Duplex mode, required by fetch when the body is a ReadableStream */
+  duplex?: 'half';
 };
 
 /**
@@ -273,3 +396,58 @@ export type Client<Q extends QueryType = QueryType> = Options<Q> & Pipe;
 export type Fetchable<Q extends QueryType = QueryType> = {
   url: string;
 } & Options<Q>;
+
+/**
+ * A validation issue reported by a Standard Schema validator.
+ */
+export type StandardSchemaIssue = {
+  /** The error message of the issue */
+  readonly message: string;
+  /** The path to the invalid value, if any */
+  readonly path?:
+    | readonly (PropertyKey | { readonly key: PropertyKey })[]
+    | undefined;
+};
+
+/**
+ * The result of a Standard Schema validation.
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * The Standard Schema interface (https://standardschema.dev).
+ *
+ * Implemented by zod, valibot, arktype and others, so any of them can be
+ * passed to `validate` without an adapter.
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?:
+      | { readonly input: Input; readonly output: Output }
+      | undefined;
+  };
+};
+
+/**
+ * Infers the output type of a Standard Schema.
+ */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<
+  S['~standard']['types']
+>['output'];
+
+/**
+ * The data type produced by `fetchData` / `fetchJSON`: the output type of the
+ * schema set via `validate`, or `T` when there is none.
+ */
+export type InferData<O, T = unknown> = O extends {
+  [validateSymbol]: infer S extends StandardSchemaV1;
+}
+  ? InferSchemaOutput<S>
+  : T;
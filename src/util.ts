@@ -1,4 +1,9 @@
-import { dataSymbol, notRetryErrorSymbol } from './constants';
+import {
+  dataSymbol,
+  notRetryErrorSymbol,
+  strippedHeadersSymbol,
+} from './constants';
+import type { Fetchable, PathParams } from './types';
 
 /**
  * Returns a Promise that resolves after the specified delay.
@@ -44,6 +49,40 @@ export function sleep(ms: number, signal?: AbortSignal) {
   });
 }
 
+/**
+ * Rejects with the signal's abort reason as soon as the signal aborts.
+ *
+ * Settles like the given promise otherwise. Useful to make sure a request
+ * stops waiting even if the underlying fetch ignores its signal.
+ *
+ * @param promise - The promise to wrap
+ * @param signal - Optional AbortSignal for early rejection
+ * @returns A Promise settling with the promise or rejecting on abort
+ *
+ * @example
+ * ```ts
+ * const res = await abortable(f(input, { ...init, signal }), signal);
+ * ```
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abortHandler = () => reject(signal.reason);
+    signal.addEventListener('abort', abortHandler, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', abortHandler);
+    });
+  });
+}
+
 /**
  * Extracts parsed data from a Response object.
  *
@@ -63,6 +102,115 @@ export function getData<T = unknown>(res: Response): T {
   return (res as any)[dataSymbol] as T;
 }
 
+/**
+ * Tells whether a redirect stripped a header from the request.
+ *
+ * `withRedirects` strips credentials on cross-origin hops; middlewares inside
+ * it check this before adding them back.
+ *
+ * @param init - The request init of the hop
+ * @param name - The header name
+ * @returns True when the header was stripped by a redirect
+ */
+export function isStrippedHeader(
+  init: RequestInit | undefined,
+  name: string
+): boolean {
+  const stripped = (init as any)?.[strippedHeadersSymbol] as
+    | string[]
+    | undefined;
+  return !!stripped?.includes(name.toLowerCase());
+}
+
+/**
+ * Returns request headers as a plain record with some headers set or removed.
+ *
+ * Middlewares read `init.headers` as a plain record, so headers are passed
+ * down the chain in this form. Names are matched case-insensitively; the
+ * names of a record are kept as they are.
+ *
+ * @param headers - The request headers in any `HeadersInit` form
+ * @param changes - Headers to set, or to remove with `null`
+ * @returns A new plain record of headers
+ *
+ * @example
+ * ```ts
+ * mergeHeaders({ Accept: 'text/plain', 'X-Id': '1' }, {
+ *   accept: 'application/json',
+ *   'X-Id': null,
+ * });
+ * // => { accept: 'application/json' }
+ * ```
+ */
+export function mergeHeaders(
+  headers: HeadersInit | undefined,
+  changes: Record<string, string | null> = {}
+): Record<string, string> {
+  const record: Record<string, string> =
+    headers instanceof Headers || Array.isArray(headers)
+      ? Object.fromEntries(new Headers(headers))
+      : { ...headers };
+  for (const [name, value] of Object.entries(changes)) {
+    for (const key of Object.keys(record)) {
+      if (key.toLowerCase() === name.toLowerCase()) delete record[key];
+    }
+    if (value !== null) record[name] = value;
+  }
+  return record;
+}
+
+/**
+ * Substitutes `:name` path parameters in a URL template.
+ *
+ * Values are percent-encoded with `encodeURIComponent`. Parameters without
+ * a value are left untouched.
+ *
+ * @param url - The URL template
+ * @param params - The parameter values
+ * @returns The URL with parameters filled in
+ *
+ * @example
+ * ```ts
+ * fillPathParams('/users/:id/files/:name', { id: 1, name: 'a b.txt' });
+ * // => '/users/1/files/a%20b.txt'
+ * ```
+ */
+export function fillPathParams(url: string, params: PathParams): string {
+  return url.replace(/:([A-Za-z_$][\w$]*)/g, (match, name: string) =>
+    params[name] !== undefined
+      ? encodeURIComponent(String(params[name]))
+      : match
+  );
+}
+
+/**
+ * Builds the final request URL from a Fetchable configuration.
+ *
+ * Combines `baseUrl`, `url` (with path parameters filled in) and `searchParams`
+ * the same way `toFetchParams` does.
+ *
+ * @param o - The fetchable configuration
+ * @returns The final request URL
+ *
+ * @example
+ * ```ts
+ * buildUrl({ baseUrl: 'https://api.example.com', url: '/users' });
+ * // => 'https://api.example.com/users'
+ * ```
+ */
+export function buildUrl(o: Fetchable): string {
+  const { baseUrl, url, params, searchParams } = o;
+  const path = params ? fillPathParams(url, params) : url;
+  let finalUrl = baseUrl ? `${baseUrl}${path}` : path;
+
+  if (searchParams && searchParams.size > 0) {
+    const separator = finalUrl.includes('?') ? '&' : '?';
+    finalUrl = `${finalUrl}${separator}${searchParams.toString()}`;
+  }
+
+  return finalUrl;
+}
+
 /**
  * Callback function invoked before each retry attempt.
  *
@@ -251,7 +399,12 @@ export type TupleArrayToRecord<
 
 // ============ Typed URLSearchParams ============
 
-import type { TypedURLSearchParams } from './types';
+import type {
+  QueryObject,
+  QueryObjectOptions,
+  QueryPrimitive,
+  TypedURLSearchParams,
+} from './types';
 
 /**
  * Forces TypeScript to expand/simplify a type for better IDE display.
@@ -314,3 +467,86 @@ export function createQuery(
     input as ConstructorParameters<typeof URLSearchParams>[0]
   ) as TypedURLSearchParams<Record<string, string | string[]>>;
 }
+
+/**
+ * Serializes an object to query parameter pairs.
+ *
+ * Numbers and booleans are converted with `String()`, Dates with
+ * `toISOString()`. Arrays and nested objects are serialized according to
+ * `arrayFormat` and `nested`. Arrays containing objects always use indices.
+ * `undefined` values are always skipped.
+ *
+ * @param obj - The object to serialize
+ * @param options - Serialization options
+ * @returns An array of [key, value] pairs
+ *
+ * @example
+ * ```ts
+ * serializeQuery({ page: 1, tags: ['a', 'b'], filter: { active: true } });
+ * // => [['page', '1'], ['tags', 'a'], ['tags', 'b'], ['filter[active]', 'true']]
+ *
+ * serializeQuery({ tags: ['a', 'b'] }, { arrayFormat: 'comma' });
+ * // => [['tags', 'a,b']]
+ * ```
+ */
+export function serializeQuery(
+  obj: QueryObject,
+  options: QueryObjectOptions = {}
+): [string, string][] {
+  const {
+    arrayFormat = 'repeat',
+    nested = 'brackets',
+    skipNull = false,
+    skipEmpty = false,
+  } = options;
+  const pairs: [string, string][] = [];
+
+  const toString = (value: Exclude<QueryPrimitive, null | undefined>) =>
+    value instanceof Date ? value.toISOString() : String(value);
+
+  const add = (key: string, value: QueryObject[string]): void => {
+    if (value === undefined) return;
+    if (value === null) {
+      if (!skipNull) pairs.push([key, '']);
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      if (skipEmpty && value.length === 0) return;
+
+      const hasObjects = value.some(
+        (v) => v !== null && typeof v === 'object' && !(v instanceof Date)
+      );
+      if (hasObjects || arrayFormat === 'index') {
+        value.forEach((v, i) => add(`${key}[${i}]`, v));
+      } else if (arrayFormat === 'comma') {
+        const items = (value as QueryPrimitive[])
+          .filter((v) => v !== undefined && !(skipNull && v === null))
+          .map((v) => (v === null ? '' : toString(v!)));
+        if (!(skipEmpty && items.length === 0)) {
+          pairs.push([key, items.join(',')]);
+        }
+      } else {
+        const itemKey = arrayFormat === 'brackets' ? `${key}[]` : key;
+        value.forEach((v) => add(itemKey, v));
+      }
+      return;
+    }
+
+    if (typeof value === 'object' && !(value instanceof Date)) {
+      for (const [k, v] of Object.entries(value)) {
+        add(nested === 'dots' ? `${key}.${k}` : `${key}[${k}]`, v);
+      }
+      return;
+    }
+
+    const str = toString(value);
+    if (skipEmpty && str === '') return;
+    pairs.push([key, str]);
+  };
+
+  for (const [key, value] of Object.entries(obj)) {
+    add(key, value);
+  }
+  return pairs;
+}
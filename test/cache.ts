@@ -0,0 +1,462 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  fetch,
+  fetchJSON,
+  use,
+  withCache,
+  withRetry,
+  createMemoryStore,
+  parseCacheControl,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+const example = 'https://example.com/data';
+
+describe('HTTP Cache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('parseCacheControl', () => {
+    it('should parse directives', () => {
+      expect(parseCacheControl('Max-Age=60, no-cache, x="a"')).toEqual({
+        'max-age': '60',
+        'no-cache': true,
+        x: 'a',
+      });
+    });
+
+    it('should return empty object for null', () => {
+      expect(parseCacheControl(null)).toEqual({});
+    });
+  });
+
+  describe('createMemoryStore', () => {
+    it('should evict the least recently used entry', () => {
+      const store = createMemoryStore(2);
+      const entry = {
+        status: 200,
+        statusText: '',
+        headers: [],
+        body: new ArrayBuffer(0),
+        vary: {},
+        storedAt: 0,
+      };
+      store.set('a', entry);
+      store.set('b', entry);
+      store.get('a');
+      store.set('c', entry);
+
+      expect(store.get('a')).toBe(entry);
+      expect(store.get('b')).toBeUndefined();
+      expect(store.get('c')).toBe(entry);
+    });
+  });
+
+  describe('withCache', () => {
+    it('should create config with name and positioning', () => {
+      const config = withCache();
+      expect(config.name).toBe('builtin:cache');
+      expect(config.outer).toBe('builtin:retry');
+      expect(config.inner).toBe('builtin:data');
+    });
+
+    it('should serve fresh responses from cache', async () => {
+      const mockFetch = vi.fn(() =>
+        Promise.resolve(
+          new Response('hello', { headers: { 'Cache-Control': 'max-age=60' } })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(59000);
+      const res = await client.pipe(fetch);
+
+      expect(await res.text()).toBe('hello');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(1000);
+      await client.pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use ttl when no freshness information is present', async () => {
+      const mockFetch = vi.fn(() => Promise.resolve(new Response('hello')));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache({ ttl: 1000 }))
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      await client.pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not store no-store responses', async () => {
+      const mockFetch = vi.fn(() =>
+        Promise.resolve(
+          new Response('hello', { headers: { 'Cache-Control': 'no-store' } })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache({ ttl: 1000 }))
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      await client.pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate with ETag and serve cached body on 304', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'no-cache', ETag: '"abc"' },
+          })
+        )
+        .mockResolvedValueOnce(new Response(null, { status: 304 }));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      const res = await client.pipe(fetch);
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe('v1');
+      expect(mockFetch.mock.calls[1]![1].headers).toEqual({
+        'If-None-Match': '"abc"',
+      });
+    });
+
+    it('should revalidate with Last-Modified when stale', async () => {
+      const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT';
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: {
+              'Cache-Control': 'max-age=1',
+              'Last-Modified': lastModified,
+            },
+          })
+        )
+        .mockResolvedValueOnce(new Response('v2'));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      const res = await client.pipe(fetch);
+
+      expect(await res.text()).toBe('v2');
+      expect(mockFetch.mock.calls[1]![1].headers).toEqual({
+        'If-Modified-Since': lastModified,
+      });
+    });
+
+    it('should keep request headers passed as Headers', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'no-cache', ETag: '"abc"' },
+          })
+        )
+        .mockResolvedValueOnce(new Response(null, { status: 304 }));
+      const trace: MiddlewareFn = (f) => (input, init) =>
+        f(input, { ...init, headers: new Headers({ 'X-Trace': 't1' }) });
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(use, { outer: 'builtin:cache', middleware: trace })
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      await client.pipe(fetch);
+
+      expect(mockFetch.mock.calls[1]![1].headers).toEqual({
+        'x-trace': 't1',
+        'If-None-Match': '"abc"',
+      });
+    });
+
+    it('should bypass cache for request no-cache', async () => {
+      const mockFetch = vi.fn(() =>
+        Promise.resolve(
+          new Response('hello', { headers: { 'Cache-Control': 'max-age=60' } })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      await client.pipe(header, 'Cache-Control', 'no-cache').pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should respect Vary', async () => {
+      const mockFetch = vi.fn((_input: RequestInfo | URL, init?: RequestInit) =>
+        Promise.resolve(
+          new Response((init!.headers as Record<string, string>)['Accept'], {
+            headers: { 'Cache-Control': 'max-age=60', Vary: 'Accept' },
+          })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(header, 'Accept', 'text/html').pipe(fetch);
+      const res = await client
+        .pipe(header, 'Accept', 'application/json')
+        .pipe(fetch);
+      expect(await res.text()).toBe('application/json');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await client.pipe(header, 'Accept', 'application/json').pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should invalidate after a successful unsafe request', async () => {
+      const mockFetch = vi.fn(() =>
+        Promise.resolve(
+          new Response('hello', { headers: { 'Cache-Control': 'max-age=60' } })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      await client.pipe(method, 'PUT').pipe(fetch);
+      await client.pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should use a custom store', async () => {
+      const entries = new Map();
+      const store = {
+        get: vi.fn((key: string) => entries.get(key)),
+        set: vi.fn((key: string, entry: unknown) => {
+          entries.set(key, entry);
+        }),
+        delete: vi.fn(),
+      };
+      const mockFetch = vi.fn(() => Promise.resolve(new Response('hello')));
+
+      await create({ fetch: mockFetch })
+        .pipe(use, withCache({ store, ttl: 1000 }))
+        .pipe(url, example)
+        .pipe(fetch);
+
+      expect(store.set).toHaveBeenCalledWith(
+        `GET ${example}`,
+        expect.objectContaining({ status: 200 })
+      );
+    });
+
+    it('should cache raw responses before fetchJSON parses them', async () => {
+      const mockFetch = vi.fn(() =>
+        Promise.resolve(
+          new Response('{"a":1}', {
+            headers: { 'Cache-Control': 'max-age=60' },
+          })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withRetry(1))
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      expect(await client.pipe(fetchJSON)).toEqual({ a: 1 });
+      expect(await client.pipe(fetchJSON)).toEqual({ a: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    it('should serve stale response and revalidate in background', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'max-age=1, stale-while-revalidate=60' },
+          })
+        )
+        .mockResolvedValueOnce(new Response('v2'));
+      const onRevalidate = vi.fn();
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache({ onRevalidate }))
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      const res = await client.pipe(fetch);
+
+      expect(await res.text()).toBe('v1');
+      await vi.waitFor(() => expect(onRevalidate).toHaveBeenCalledTimes(1));
+      expect(await onRevalidate.mock.calls[0]![0].text()).toBe('v2');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not report a 304 revalidation', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: {
+              'Cache-Control': 'max-age=1, stale-while-revalidate=60',
+              ETag: '"v1"',
+            },
+          })
+        )
+        .mockResolvedValueOnce(new Response(null, { status: 304 }));
+      const onRevalidate = vi.fn();
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache({ onRevalidate }))
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      await client.pipe(fetch);
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(onRevalidate).not.toHaveBeenCalled();
+    });
+
+    it('should use explicit staleWhileRevalidate option', async () => {
+      const mockFetch = vi.fn(() =>
+        Promise.resolve(
+          new Response('v1', { headers: { 'Cache-Control': 'max-age=1' } })
+        )
+      );
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache({ staleWhileRevalidate: 5000 }))
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      await Promise.all([client.pipe(fetch), client.pipe(fetch)]);
+
+      // One initial request, one deduplicated background revalidation
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    });
+
+    it('should fetch synchronously once outside the window', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'max-age=1, stale-while-revalidate=1' },
+          })
+        )
+        .mockResolvedValueOnce(new Response('v2'));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(3000);
+      const res = await client.pipe(fetch);
+
+      expect(await res.text()).toBe('v2');
+    });
+  });
+
+  describe('stale-if-error', () => {
+    it('should serve stale response on network error', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'max-age=1, stale-if-error=60' },
+          })
+        )
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      const res = await client.pipe(fetch);
+
+      expect(await res.text()).toBe('v1');
+    });
+
+    it('should serve stale response on 5xx with explicit option', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', { headers: { 'Cache-Control': 'max-age=1' } })
+        )
+        .mockResolvedValueOnce(new Response('down', { status: 503 }));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache({ staleIfError: 60000 }))
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      const res = await client.pipe(fetch);
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe('v1');
+    });
+
+    it('should keep the stale entry when serving it for a 501', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'max-age=1, stale-if-error=60' },
+          })
+        )
+        .mockResolvedValueOnce(new Response('nope', { status: 501 }))
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(2000);
+      expect(await (await client.pipe(fetch)).text()).toBe('v1');
+      const res = await client.pipe(fetch);
+
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe('v1');
+    });
+
+    it('should rethrow outside the window', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValueOnce(
+          new Response('v1', {
+            headers: { 'Cache-Control': 'max-age=1, stale-if-error=1' },
+          })
+        )
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withCache())
+        .pipe(url, example);
+
+      await client.pipe(fetch);
+      vi.advanceTimersByTime(3000);
+      await expect(client.pipe(fetch)).rejects.toThrow('fetch failed');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  fetch,
+  signal,
+  use,
+  withRetry,
+  withCircuitBreaker,
+  sortMiddlewares,
+  createMockFetch,
+  CircuitOpenError,
+  type CircuitStateChange,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+describe('Circuit breaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should wrap retry', () => {
+    const breaker = withCircuitBreaker();
+    expect(breaker.name).toBe('builtin:circuit-breaker');
+    expect(
+      sortMiddlewares([withRetry(1), breaker]).map((entry) => entry.name)
+    ).toEqual(['builtin:circuit-breaker', 'builtin:retry']);
+  });
+
+  it('should open after the failure threshold and fail fast', async () => {
+    const changes: CircuitStateChange[] = [];
+    const mockFetch = createMockFetch().get('/items', { status: 503 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(
+        use,
+        withCircuitBreaker({
+          failureThreshold: 2,
+          onStateChange: (change) => changes.push(change),
+        })
+      )
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    await client.pipe(fetch);
+    expect(changes).toEqual([
+      { key: 'api.example.com', from: 'closed', to: 'open' },
+    ]);
+
+    const err = await client.pipe(fetch).then(null, (e) => e);
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(err.message).toBe(`Circuit is open: GET ${baseUrl}/items`);
+    expect(err.key).toBe('api.example.com');
+    expect(err.retryAfter).toBe(30000);
+    expect(mockFetch.calls).toHaveLength(2);
+  });
+
+  it('should only count failures within the window', async () => {
+    const mockFetch = createMockFetch().get('/items', { status: 500 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withCircuitBreaker({ failureThreshold: 2, windowMs: 1000 }))
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    vi.advanceTimersByTime(1000);
+    await client.pipe(fetch);
+    await client.pipe(fetch);
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(mockFetch.calls).toHaveLength(3);
+  });
+
+  it('should close after a successful probe', async () => {
+    const changes: string[] = [];
+    const mockFetch = createMockFetch().get('/items', [
+      { status: 500 },
+      { status: 500 },
+      { status: 200 },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(
+        use,
+        withCircuitBreaker({
+          failureThreshold: 2,
+          halfOpenAfter: 5000,
+          onStateChange: ({ to }) => changes.push(to),
+        })
+      )
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    await client.pipe(fetch);
+    vi.advanceTimersByTime(4999);
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    vi.advanceTimersByTime(1);
+    expect((await client.pipe(fetch)).status).toBe(200);
+    expect(changes).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should let a single probe through and reopen on failure', async () => {
+    const changes: string[] = [];
+    let release!: () => void;
+    const mockFetch = createMockFetch()
+      .get('/items', { status: 500 }, { times: 1 })
+      .get(
+        '/items',
+        () =>
+          new Promise<Response>((resolve) => {
+            release = () => resolve(new Response(null, { status: 502 }));
+          })
+      );
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(
+        use,
+        withCircuitBreaker({
+          failureThreshold: 1,
+          halfOpenAfter: 1000,
+          onStateChange: ({ to }) => changes.push(to),
+        })
+      )
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    vi.advanceTimersByTime(1000);
+
+    const probe = client.pipe(fetch);
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(CircuitOpenError);
+    await vi.waitFor(() => expect(release).toBeDefined());
+    release();
+    expect((await probe).status).toBe(502);
+
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(changes).toEqual(['open', 'half-open', 'open']);
+  });
+
+  it('should count a request once all retries failed', async () => {
+    const mockFetch = createMockFetch().get('/items', { error: true });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withCircuitBreaker({ failureThreshold: 2 }))
+      .pipe(use, withRetry({ retries: 2, backoff: () => 0 }))
+      .pipe(url, '/items');
+
+    const first = expect(client.pipe(fetch)).rejects.toThrow('fetch failed');
+    await vi.runAllTimersAsync();
+    await first;
+    expect(mockFetch.calls).toHaveLength(3);
+
+    const second = expect(client.pipe(fetch)).rejects.toThrow('fetch failed');
+    await vi.runAllTimersAsync();
+    await second;
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(mockFetch.calls).toHaveLength(6);
+  });
+
+  it('should keep a circuit per host', async () => {
+    const mockFetch = createMockFetch()
+      .get('https://a.example.com/', { status: 500 })
+      .get('https://b.example.com/', { status: 200 });
+    const client = create({ fetch: mockFetch }).pipe(
+      use,
+      withCircuitBreaker({ failureThreshold: 1 })
+    );
+
+    await client.pipe(url, 'https://a.example.com/').pipe(fetch);
+    await expect(
+      client.pipe(url, 'https://a.example.com/').pipe(fetch)
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(
+      (await client.pipe(url, 'https://b.example.com/').pipe(fetch)).status
+    ).toBe(200);
+  });
+
+  it('should use a custom failure predicate', async () => {
+    const mockFetch = createMockFetch().get('/items', { status: 429 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(
+        use,
+        withCircuitBreaker({
+          failureThreshold: 1,
+          isFailure: ({ response }) => response?.status === 429,
+        })
+      )
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(CircuitOpenError);
+  });
+
+  it('should not count aborts by the caller', async () => {
+    const controller = new AbortController();
+    const mockFetch = createMockFetch().get('/items', { delay: 1000 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withCircuitBreaker({ failureThreshold: 1 }))
+      .pipe(url, '/items');
+
+    const aborted = client.pipe(signal, controller.signal).pipe(fetch);
+    const assertion = expect(aborted).rejects.toThrow('stop');
+    controller.abort(new Error('stop'));
+    await assertion;
+
+    const next = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect((await next).status).toBe(200);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  create,
+  url,
+  fetch,
+  signal,
+  priority,
+  use,
+  withRetry,
+  withRateLimit,
+  withConcurrency,
+  createConcurrency,
+  sortMiddlewares,
+  createMockFetch,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+// A fetch whose responses are released by hand
+function deferredFetch() {
+  const pending: { url: string; resolve: () => void }[] = [];
+  const mockFetch = (input: RequestInfo | URL) =>
+    new Promise<Response>((resolve) => {
+      pending.push({
+        url: String(input),
+        resolve: () => resolve(new Response(null, { status: 204 })),
+      });
+    });
+  return { mockFetch, pending };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Concurrency', () => {
+  it('should sit between retry and rate limit', () => {
+    const concurrency = withConcurrency({ max: 1 });
+    expect(concurrency.name).toBe('builtin:concurrency');
+
+    const sorted = sortMiddlewares([
+      withRateLimit({ tokensPerInterval: 1 }),
+      concurrency,
+      withRetry(1),
+    ]);
+    expect(sorted.map((entry) => entry.name)).toEqual([
+      'builtin:retry',
+      'builtin:concurrency',
+      'builtin:rate-limit',
+    ]);
+  });
+
+  it('should reject an invalid max', () => {
+    expect(() => withConcurrency({ max: 0 })).toThrow(RangeError);
+    expect(() => withConcurrency({ max: 1.5 })).toThrow(
+      'max must be an integer of at least 1, got 1.5'
+    );
+    expect(() => createConcurrency({ max: NaN })).toThrow(RangeError);
+  });
+
+  it('should cap requests in flight', async () => {
+    const { mockFetch, pending } = deferredFetch();
+    const concurrency = withConcurrency({ max: 2 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, concurrency)
+      .pipe(url, '/items');
+
+    const responses = Promise.all(
+      Array.from({ length: 5 }, () => client.pipe(fetch))
+    );
+    await tick();
+    expect(pending).toHaveLength(2);
+    expect(concurrency.stats()).toEqual({ active: 2, pending: 3 });
+
+    pending[0]!.resolve();
+    await tick();
+    expect(pending).toHaveLength(3);
+    expect(concurrency.stats()).toEqual({ active: 2, pending: 2 });
+
+    for (let i = 1; i < 5; i++) {
+      pending[i]!.resolve();
+      await tick();
+    }
+    expect(await responses).toHaveLength(5);
+    expect(concurrency.stats()).toEqual({ active: 0, pending: 0 });
+  });
+
+  it('should send waiting requests by priority', async () => {
+    const { mockFetch, pending } = deferredFetch();
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(
+      use,
+      withConcurrency({ max: 1 })
+    );
+
+    const responses = Promise.all([
+      client.pipe(url, '/first').pipe(fetch),
+      client.pipe(url, '/low').pipe(priority, -1).pipe(fetch),
+      client.pipe(url, '/normal').pipe(fetch),
+      client.pipe(url, '/high').pipe(priority, 5).pipe(fetch),
+      client.pipe(url, '/high-2').pipe(priority, 5).pipe(fetch),
+    ]);
+    for (let i = 0; i < 5; i++) {
+      await tick();
+      pending[i]!.resolve();
+    }
+    await responses;
+
+    expect(pending.map((req) => new URL(req.url).pathname)).toEqual([
+      '/first',
+      '/high',
+      '/high-2',
+      '/normal',
+      '/low',
+    ]);
+  });
+
+  it('should limit each host separately', async () => {
+    const { mockFetch, pending } = deferredFetch();
+    const concurrency = createConcurrency({ max: 1, key: 'host' });
+    const client = create({ fetch: mockFetch }).pipe(use, concurrency);
+
+    const responses = Promise.all([
+      client.pipe(url, 'https://a.example.com/').pipe(fetch),
+      client.pipe(url, 'https://a.example.com/').pipe(fetch),
+      client.pipe(url, 'https://b.example.com/').pipe(fetch),
+    ]);
+    await tick();
+    expect(pending.map((req) => req.url)).toEqual([
+      'https://a.example.com/',
+      'https://b.example.com/',
+    ]);
+    expect(concurrency.stats('a.example.com')).toEqual({
+      active: 1,
+      pending: 1,
+    });
+    expect(concurrency.stats('b.example.com')).toEqual({
+      active: 1,
+      pending: 0,
+    });
+
+    pending[0]!.resolve();
+    pending[1]!.resolve();
+    await tick();
+    pending[2]!.resolve();
+    await responses;
+  });
+
+  it('should release the slot when a request fails', async () => {
+    const mockFetch = createMockFetch()
+      .get('/down', { error: true })
+      .get('/up', { status: 204 });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(
+      use,
+      withConcurrency({ max: 1 })
+    );
+
+    const results = await Promise.allSettled([
+      client.pipe(url, '/down').pipe(fetch),
+      client.pipe(url, '/up').pipe(fetch),
+    ]);
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'fulfilled',
+    ]);
+  });
+
+  it('should remove aborted requests from the queue', async () => {
+    const controller = new AbortController();
+    const { mockFetch, pending } = deferredFetch();
+    const concurrency = withConcurrency({ max: 1 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, concurrency)
+      .pipe(url, '/items');
+
+    const first = client.pipe(fetch);
+    const aborted = client.pipe(signal, controller.signal).pipe(fetch);
+    const queued = client.pipe(fetch);
+    await tick();
+    expect(concurrency.stats().pending).toBe(2);
+
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+    expect(concurrency.stats().pending).toBe(1);
+
+    pending[0]!.resolve();
+    await tick();
+    pending[1]!.resolve();
+    await Promise.all([first, queued]);
+    expect(pending).toHaveLength(2);
+  });
+});
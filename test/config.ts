@@ -20,12 +20,17 @@ import {
   blob,
   body,
   jsonBody,
+  formBody,
+  multipartBody,
+  binaryBody,
   signal,
   timeout,
   query,
   mergeQuery,
   querySet,
   queryAppend,
+  params,
+  queryObject,
   withRetry,
   withTimeout,
 } from '@/index';
@@ -192,6 +197,29 @@ describe('config-build', function () {
     getData<any>(res).should.be.eql({});
   });
 
+  it('data should leave the original response untouched', async function () {
+    const mw = data({}, (res) => res.json());
+    const originalRes = new Response('{"a":1}', { status: 201 });
+
+    const res = await mw.middlewares[0].middleware(
+      () => Promise.resolve(originalRes),
+      mw as any
+    )('');
+
+    getData<any>(res).should.be.eql({ a: 1 });
+    res.status.should.be.equal(201);
+    res.should.not.equal(originalRes);
+    (dataSymbol in originalRes).should.be.false;
+  });
+
+  it('data should keep a single reader innermost', async function () {
+    const o = text(use(json({}), (f) => f));
+    const names = o.middlewares.map((m) => m.name);
+
+    names.filter((name) => name === 'builtin:data').should.have.length(1);
+    names[names.length - 1].should.be.equal('builtin:data');
+  });
+
   it('data should skip if already has data', async function () {
     const mw = data({}, (res) => res.json());
     const originalRes = new Response('{}');
@@ -248,9 +276,130 @@ describe('config-build', function () {
     });
   });
 
+  describe('formBody', function () {
+    it('should encode object as form data', function () {
+      formBody(
+        { headers: { 'content-type': 'text/plain' } },
+        { name: 'John Doe', tags: ['a', 'b'], admin: false }
+      ).should.be.eql({
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: 'name=John+Doe&tags=a&tags=b&admin=false',
+      });
+    });
+
+    it('should accept URLSearchParams', function () {
+      formBody({}, new URLSearchParams('a=1')).body.should.be.eql('a=1');
+    });
+  });
+
+  describe('multipartBody', function () {
+    it('should build FormData and remove stale Content-Type', async function () {
+      const file = new File(['hello'], 'hello.txt', { type: 'text/plain' });
+      const result = multipartBody(
+        { headers: { 'Content-Type': 'application/json', Accept: '*/*' } },
+        { title: 'x', count: 2, file, tags: ['a', 'b'] }
+      );
+
+      result.headers.should.be.eql({ Accept: '*/*' });
+      const form = result.body as FormData;
+      expect(form.get('title')).toBe('x');
+      expect(form.get('count')).toBe('2');
+      expect(form.getAll('tags')).toEqual(['a', 'b']);
+      expect((form.get('file') as File).name).toBe('hello.txt');
+      expect(await (form.get('file') as File).text()).toBe('hello');
+    });
+
+    it('should let the runtime set the boundary', async function () {
+      const result = multipartBody({}, { a: '1' });
+      const req = new Request('https://x.y', {
+        method: 'POST',
+        ...result,
+      });
+      expect(req.headers.get('Content-Type')).toMatch(
+        /^multipart\/form-data; boundary=/
+      );
+    });
+  });
+
+  describe('binaryBody', function () {
+    it('should set headers for Uint8Array', function () {
+      const data = new Uint8Array([1, 2, 3]);
+      binaryBody({}, data).should.be.eql({
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Length': '3',
+        },
+        body: data,
+      });
+    });
+
+    it('should use Blob type and size', function () {
+      const data = new Blob(['abcd'], { type: 'image/png' });
+      binaryBody({}, data).headers.should.be.eql({
+        'Content-Type': 'image/png',
+        'Content-Length': '4',
+      });
+    });
+
+    it('should set duplex for streams', function () {
+      const data = new Blob(['abcd']).stream();
+      const result = binaryBody(
+        { headers: { 'content-length': '10' } },
+        data,
+        'video/mp4'
+      );
+      result.headers.should.be.eql({ 'Content-Type': 'video/mp4' });
+      expect(result.duplex).toBe('half');
+    });
+  });
+
   it('timeout', function () {
     const result = timeout({}, 5000);
-    result.signal.should.be.instanceof(AbortSignal);
+    result.middlewares.map((m) => m.name).should.be.eql(['builtin:timeout']);
+  });
+
+  it('timeout with attempt and total limits', function () {
+    const result = timeout({}, { attempt: 1000, total: 5000 });
+    result.middlewares
+      .map((m) => m.name)
+      .should.be.eql(['builtin:timeout', 'builtin:attempt-timeout']);
+  });
+
+  it('params', function () {
+    const result = params(params({}, { a: 1, b: 'x' }), { b: 'y' });
+    result.params.should.be.eql({ a: 1, b: 'y' });
+
+    const _check: typeof result.params extends { a: 1; b: 'y' } ? true : false =
+      true;
+    expect(_check).toBe(true);
+  });
+
+  describe('queryObject', function () {
+    it('should set searchParams from object', function () {
+      const result = queryObject({}, { page: 1, tags: ['a', 'b'] });
+      result.searchParams.toString().should.be.eql('page=1&tags=a&tags=b');
+
+      type Q = NonNullable<(typeof result.searchParams)['_type']>;
+      const _check: Q extends { page: '1'; tags: ('a' | 'b')[] } ? true : false =
+        true;
+      expect(_check).toBe(true);
+    });
+
+    it('should replace existing searchParams', function () {
+      const result = queryObject(query({}, 'x=1'), { y: 2 });
+      result.searchParams.toString().should.be.eql('y=2');
+    });
+
+    it('should accept serialization options', function () {
+      const result = queryObject(
+        {},
+        { tags: ['a', 'b'], f: { active: true } },
+        { arrayFormat: 'comma', nested: 'dots' }
+      );
+      result.searchParams
+        .toString()
+        .should.be.eql('tags=a%2Cb&f.active=true');
+    });
   });
 
   describe('query', function () {
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  body,
+  fetch,
+  use,
+  withRetry,
+  withCookieJar,
+  createMemoryCookieJar,
+  parseSetCookie,
+  sortMiddlewares,
+  createMockFetch,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+const origin = 'https://example.com';
+
+describe('Cookie jar', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should sit inside retry', () => {
+    const cookieJar = withCookieJar(createMemoryCookieJar());
+    expect(cookieJar.name).toBe('builtin:cookie-jar');
+    expect(
+      sortMiddlewares([cookieJar, withRetry(1)]).map((entry) => entry.name)
+    ).toEqual(['builtin:retry', 'builtin:cookie-jar']);
+  });
+
+  describe('parseSetCookie', () => {
+    it('should parse the attributes', () => {
+      expect(
+        parseSetCookie(
+          'sid=a=b; Domain=.Example.com; Path=/app; Max-Age=60; ' +
+            'Expires=Wed, 21 Oct 2015 07:28:00 GMT; Secure; HttpOnly; ' +
+            'SameSite=lax',
+          `${origin}/login`
+        )
+      ).toEqual({
+        name: 'sid',
+        value: 'a=b',
+        domain: 'example.com',
+        hostOnly: false,
+        path: '/app',
+        expires: 60000,
+        secure: true,
+        httpOnly: true,
+        sameSite: 'Lax',
+        createdAt: 0,
+      });
+    });
+
+    it('should default the domain and path to the URL', () => {
+      expect(parseSetCookie('a=1', `${origin}/docs/page`)).toMatchObject({
+        domain: 'example.com',
+        hostOnly: true,
+        path: '/docs',
+      });
+      expect(parseSetCookie('a=1; Path=x', `${origin}/page`)!.path).toBe('/');
+    });
+
+    it('should ignore cookies a user agent must reject', () => {
+      const reject = [
+        'novalue',
+        '=1',
+        'a=1; Domain=other.com',
+        'a=1; Domain=com',
+        'a=1; SameSite=None',
+      ];
+      for (const value of reject) {
+        expect(parseSetCookie(value, `${origin}/`)).toBeUndefined();
+      }
+      expect(parseSetCookie('a=1; Secure', 'http://example.com/')).toBe(
+        undefined
+      );
+    });
+  });
+
+  describe('createMemoryCookieJar', () => {
+    it('should match by domain, path and scheme', () => {
+      const jar = createMemoryCookieJar();
+      jar.setCookie('host=1', `${origin}/`);
+      jar.setCookie('domain=2; Domain=example.com', `${origin}/`);
+      jar.setCookie('path=3; Path=/api', `${origin}/`);
+      jar.setCookie('secure=4; Secure', `${origin}/`);
+
+      expect(jar.getCookieHeader(`${origin}/api/users`)).toBe(
+        'path=3; host=1; domain=2; secure=4'
+      );
+      expect(jar.getCookieHeader('https://www.example.com/apis')).toBe(
+        'domain=2'
+      );
+      expect(jar.getCookieHeader('http://example.com/')).toBe(
+        'host=1; domain=2'
+      );
+      expect(jar.getCookieHeader('https://other.com/')).toBeUndefined();
+    });
+
+    it('should replace, expire and delete cookies', () => {
+      const jar = createMemoryCookieJar();
+      jar.setCookie('a=1; Max-Age=10', `${origin}/`);
+      jar.setCookie('b=1', `${origin}/`);
+      vi.setSystemTime(5000);
+      jar.setCookie('b=2', `${origin}/`);
+      expect(jar.cookies().map((c) => [c.name, c.value, c.createdAt])).toEqual(
+        [
+          ['a', '1', 0],
+          ['b', '2', 0],
+        ]
+      );
+
+      vi.setSystemTime(10000);
+      expect(jar.getCookieHeader(`${origin}/`)).toBe('b=2');
+      jar.setCookie('b=; Expires=Thu, 01 Jan 1970 00:00:00 GMT', `${origin}/`);
+      expect(jar.cookies()).toEqual([]);
+    });
+
+    it('should round-trip through JSON', () => {
+      const jar = createMemoryCookieJar();
+      jar.setCookie('sid=abc; Max-Age=3600; HttpOnly', `${origin}/`);
+      jar.setCookie('gone=1; Max-Age=1', `${origin}/`);
+      const saved = JSON.stringify(jar);
+
+      vi.setSystemTime(1000);
+      const restored = createMemoryCookieJar(JSON.parse(saved));
+      expect(restored.cookies()).toEqual([
+        expect.objectContaining({ name: 'sid', httpOnly: true }),
+      ]);
+      expect(restored.getCookieHeader(`${origin}/`)).toBe('sid=abc');
+    });
+  });
+
+  describe('withCookieJar', () => {
+    it('should store and send cookies', async () => {
+      const mockFetch = createMockFetch()
+        .post('/login', { headers: [['Set-Cookie', 'sid=abc; HttpOnly']] })
+        .get('/me', { status: 200 });
+      const jar = createMemoryCookieJar();
+      const client = create({ baseUrl: origin, fetch: mockFetch }).pipe(
+        use,
+        withCookieJar(jar)
+      );
+
+      await client.pipe(url, '/login').pipe(method, 'POST').pipe(fetch);
+      await client
+        .pipe(url, '/me')
+        .pipe(header, 'Cookie', 'theme=dark')
+        .pipe(fetch);
+      expect(mockFetch.calls[0]!.headers.has('Cookie')).toBe(false);
+      expect(mockFetch.calls[1]!.headers.get('Cookie')).toBe(
+        'theme=dark; sid=abc'
+      );
+    });
+
+    it('should keep the request headers for inner middlewares', async () => {
+      const mockFetch = createMockFetch().get('/me', { status: 200 });
+      const jar = createMemoryCookieJar();
+      jar.setCookie('sid=abc', `${origin}/`);
+      // Middlewares may spread the headers as a record
+      const trace: MiddlewareFn = (f) => (input, init) =>
+        f(input, {
+          ...init,
+          headers: {
+            ...(init?.headers as Record<string, string>),
+            'X-Hop': '1',
+          },
+        });
+      await create({ baseUrl: origin, fetch: mockFetch })
+        .pipe(use, withCookieJar(jar))
+        .pipe(use, trace)
+        .pipe(header, 'X-Trace', 't1')
+        .pipe(url, '/me')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('Cookie')).toBe('sid=abc');
+      expect(req.headers.get('X-Trace')).toBe('t1');
+      expect(req.headers.get('X-Hop')).toBe('1');
+    });
+
+    it('should store cookies of each redirect hop', async () => {
+      const mockFetch = createMockFetch()
+        .post('/login', {
+          status: 302,
+          headers: [
+            ['Location', '/home'],
+            ['Set-Cookie', 'sid=abc'],
+            ['Set-Cookie', 'flash=welcome'],
+          ],
+        })
+        .get('/home', { status: 200 });
+      const jar = createMemoryCookieJar();
+      const res = await create({ baseUrl: origin, fetch: mockFetch })
+        .pipe(use, withCookieJar(jar))
+        .pipe(url, '/login')
+        .pipe(method, 'POST')
+        .pipe(header, 'Content-Type', 'text/plain')
+        .pipe(body, 'credentials')
+        .pipe(fetch);
+
+      expect(res.status).toBe(200);
+      const [login, home] = mockFetch.calls;
+      expect(login!.init.redirect).toBe('manual');
+      expect(home!.method).toBe('GET');
+      expect(home!.body).toBeUndefined();
+      expect(home!.headers.has('Content-Type')).toBe(false);
+      expect(home!.headers.get('Cookie')).toBe('sid=abc; flash=welcome');
+    });
+
+    it('should drop Authorization on cross-origin redirects', async () => {
+      const mockFetch = createMockFetch()
+        .get(`${origin}/file`, {
+          status: 307,
+          headers: { Location: 'https://cdn.example.net/file' },
+        })
+        .get('https://cdn.example.net/file', { status: 200 });
+      await create({ fetch: mockFetch })
+        .pipe(use, withCookieJar(createMemoryCookieJar()))
+        .pipe(url, `${origin}/file`)
+        .pipe(header, 'Authorization', 'Bearer t')
+        .pipe(fetch);
+
+      expect(
+        mockFetch.calls.map((req) => req.headers.get('Authorization'))
+      ).toEqual(['Bearer t', null]);
+    });
+
+    it('should leave manual redirects to the caller', async () => {
+      const mockFetch = createMockFetch().get('/old', {
+        status: 301,
+        headers: [
+          ['Location', '/new'],
+          ['Set-Cookie', 'moved=1'],
+        ],
+      });
+      const jar = createMemoryCookieJar();
+      const res = await create({
+        baseUrl: origin,
+        fetch: mockFetch,
+        redirect: 'manual',
+      })
+        .pipe(use, withCookieJar(jar))
+        .pipe(url, '/old')
+        .pipe(fetch);
+
+      expect(res.status).toBe(301);
+      expect(mockFetch.calls).toHaveLength(1);
+      expect(jar.getCookieHeader(`${origin}/new`)).toBe('moved=1');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { afterEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  signal,
+  fetch,
+  fetchJSON,
+  use,
+  withDedupe,
+  skipDedupe,
+  defaultDedupeKey,
+} from '@/index';
+
+const example = 'https://example.com/users';
+
+// Resolves on the next macrotask so concurrent callers overlap
+const delayedFetch = (body = '{"id":1}') =>
+  vi.fn(
+    () =>
+      new Promise<Response>((resolve) =>
+        setTimeout(() => resolve(new Response(body)), 0)
+      )
+  );
+
+describe('Request Deduplication', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create config with name and positioning', () => {
+    const config = withDedupe();
+    expect(config.name).toBe('builtin:dedupe');
+    expect(config.outer).toBe('builtin:retry');
+    expect(config.inner).toBe('builtin:data');
+  });
+
+  it('should coalesce concurrent identical requests', async () => {
+    const mockFetch = delayedFetch();
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    const results = await Promise.all([
+      client.pipe(fetchJSON),
+      client.pipe(fetchJSON),
+      client.pipe(fetchJSON),
+    ]);
+
+    expect(results).toEqual([{ id: 1 }, { id: 1 }, { id: 1 }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give each caller an independent response', async () => {
+    const mockFetch = delayedFetch('body');
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    const [a, b] = await Promise.all([client.pipe(fetch), client.pipe(fetch)]);
+
+    expect(a).not.toBe(b);
+    expect(await a.text()).toBe('body');
+    expect(await b.text()).toBe('body');
+  });
+
+  it('should give the last caller the original stream', async () => {
+    const original = new Response(new Blob(['stream']).stream());
+    const mockFetch = vi.fn(
+      () =>
+        new Promise<Response>((resolve) =>
+          setTimeout(() => resolve(original), 0)
+        )
+    );
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    const responses = await Promise.all([
+      client.pipe(fetch),
+      client.pipe(fetch),
+      client.pipe(fetch),
+    ]);
+
+    expect(responses.filter((res) => res === original)).toHaveLength(1);
+    expect(responses[2]).toBe(original);
+    for (const res of responses) expect(await res.text()).toBe('stream');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request again after the shared request settled', async () => {
+    const mockFetch = delayedFetch();
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    await client.pipe(fetch);
+    await client.pipe(fetch);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not coalesce non-idempotent methods', async () => {
+    const mockFetch = delayedFetch();
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example)
+      .pipe(method, 'POST');
+
+    await Promise.all([client.pipe(fetch), client.pipe(fetch)]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should distinguish selected headers', async () => {
+    const mockFetch = delayedFetch();
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    await Promise.all([
+      client.pipe(header, 'Authorization', 'Bearer a').pipe(fetch),
+      client.pipe(header, 'Authorization', 'Bearer b').pipe(fetch),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip requests opted out with skipDedupe', async () => {
+    const mockFetch = delayedFetch();
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    await Promise.all([
+      client.pipe(fetch),
+      client.pipe(skipDedupe).pipe(fetch),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use a custom key function', async () => {
+    const mockFetch = delayedFetch();
+    const client = create({ fetch: mockFetch }).pipe(
+      use,
+      withDedupe({ key: () => 'same' })
+    );
+
+    await Promise.all([
+      client.pipe(url, '/a').pipe(method, 'POST').pipe(fetch),
+      client.pipe(url, '/b').pipe(fetch),
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share rejections', async () => {
+    const mockFetch = vi.fn(
+      () =>
+        new Promise<Response>((_, reject) =>
+          setTimeout(() => reject(new Error('boom')), 0)
+        )
+    );
+    const client = create({ fetch: mockFetch })
+      .pipe(use, withDedupe())
+      .pipe(url, example);
+
+    const results = await Promise.allSettled([
+      client.pipe(fetch),
+      client.pipe(fetch),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe('abort', () => {
+    // Resolves after 10ms and records the signal of each network call
+    const signalledFetch = () => {
+      const signals: AbortSignal[] = [];
+      const mockFetch = vi.fn((_: RequestInfo | URL, init?: RequestInit) => {
+        signals.push(init!.signal!);
+        return new Promise<Response>((resolve) =>
+          setTimeout(() => resolve(new Response('body')), 10)
+        );
+      });
+      return { mockFetch, signals };
+    };
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should keep the shared request when one caller aborts', async () => {
+      const { mockFetch, signals } = signalledFetch();
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withDedupe())
+        .pipe(url, example);
+      const controller = new AbortController();
+
+      const first = client.pipe(signal, controller.signal).pipe(fetch);
+      const second = client.pipe(fetch);
+      await tick();
+      controller.abort();
+
+      await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+      expect(await (await second).text()).toBe('body');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(signals[0]!.aborted).toBe(false);
+    });
+
+    it('should abort the shared request once every caller aborts', async () => {
+      const { mockFetch, signals } = signalledFetch();
+      const client = create({ fetch: mockFetch })
+        .pipe(use, withDedupe())
+        .pipe(url, example);
+      const controllers = [new AbortController(), new AbortController()];
+
+      const results = Promise.allSettled(
+        controllers.map((controller) =>
+          client.pipe(signal, controller.signal).pipe(fetch)
+        )
+      );
+      await tick();
+      controllers[0]!.abort();
+      expect(signals[0]!.aborted).toBe(false);
+      controllers[1]!.abort();
+      expect(signals[0]!.aborted).toBe(true);
+
+      expect((await results).map((r) => r.status)).toEqual([
+        'rejected',
+        'rejected',
+      ]);
+      await client.pipe(fetch);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('defaultDedupeKey', () => {
+    it('should include method, url and selected headers', () => {
+      const key = defaultDedupeKey(['X-Tenant']);
+      expect(
+        key(example, { headers: { 'x-tenant': 't1' } }, { url: example })
+      ).toBe(`GET\n${example}\nx-tenant:t1`);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { afterEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  fetch,
+  fetchJSON,
+  throwHttpErrors,
+  use,
+  HTTPError,
+  ClientError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  createHTTPError,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+describe('HTTP Errors', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createHTTPError', () => {
+    const options = { url: '/users', method: 'post' };
+
+    it('should create ClientError for 4xx', () => {
+      const res = new Response(null, { status: 404, statusText: 'Not Found' });
+      const err = createHTTPError(res, 'https://x.y/users', options);
+
+      expect(err).toBeInstanceOf(ClientError);
+      expect(err).toBeInstanceOf(HTTPError);
+      expect(err.name).toBe('ClientError');
+      expect(err.status).toBe(404);
+      expect(err.response).toBe(res);
+      expect(err.url).toBe('https://x.y/users');
+      expect(err.method).toBe('POST');
+      expect(err.options).toBe(options);
+      expect(err.message).toBe(
+        'Request failed with status code 404 Not Found: POST https://x.y/users'
+      );
+    });
+
+    it('should create ServerError for 5xx', () => {
+      const res = new Response(null, { status: 503 });
+      const err = createHTTPError(res, '/users', options);
+
+      expect(err).toBeInstanceOf(ServerError);
+      expect(err.status).toBe(503);
+    });
+
+    it('should create plain HTTPError for other statuses', () => {
+      const res = new Response(null, { status: 304 });
+      const err = createHTTPError(res, '/users', options);
+
+      expect(err.constructor).toBe(HTTPError);
+    });
+  });
+
+  describe('throwHttpErrors', () => {
+    it('should throw ClientError on 4xx response', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(new Response('not found', { status: 404 }));
+
+      const err = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com/users')
+        .pipe(fetch)
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(ClientError);
+      expect(err.status).toBe(404);
+      expect(err.url).toBe('https://example.com/users');
+      expect(err.method).toBe('GET');
+    });
+
+    it('should pass successful responses through', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(new Response('ok'));
+
+      const res = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com')
+        .pipe(fetch);
+
+      expect(res.ok).toBe(true);
+    });
+
+    it('should check the status before fetchJSON parses the body', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(
+          new Response('<html>error</html>', { status: 500 })
+        );
+
+      const err = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com/data')
+        .pipe(method, 'PUT')
+        .pipe(fetchJSON)
+        .then(null, (e) => e);
+
+      expect(err).toBeInstanceOf(ServerError);
+      expect(err.method).toBe('PUT');
+      expect(err.url).toBe('https://example.com/data');
+      expect(await err.response.text()).toBe('<html>error</html>');
+    });
+
+    it('should still return parsed data for ok responses', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(new Response(JSON.stringify({ id: 1 })));
+
+      const result = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com/data')
+        .pipe(fetchJSON);
+
+      expect(result).toEqual({ id: 1 });
+    });
+
+    it('should use custom isError predicate', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(new Response(null, { status: 404 }));
+
+      const res = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors, (res) => res.status >= 500)
+        .pipe(url, 'https://example.com')
+        .pipe(fetch);
+
+      expect(res.status).toBe(404);
+    });
+
+    it('should convert network failures to NetworkError', async () => {
+      const cause = new TypeError('fetch failed');
+      const mockFetch = vi.fn().mockRejectedValue(cause);
+
+      const err = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com')
+        .pipe(fetch)
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(NetworkError);
+      expect(err.status).toBe(0);
+      expect(err.response).toBeUndefined();
+      expect(err.cause).toBe(cause);
+    });
+
+    it('should not convert a TypeError thrown by a middleware', async () => {
+      const mockFetch = vi.fn().mockResolvedValue(new Response('ok'));
+      const bug: MiddlewareFn = () => async () => {
+        throw new TypeError('undefined is not a function');
+      };
+
+      const err = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(use, bug)
+        .pipe(url, 'https://example.com')
+        .pipe(fetch)
+        .catch((e) => e);
+
+      expect(err).not.toBeInstanceOf(NetworkError);
+      expect(err).toBeInstanceOf(TypeError);
+    });
+
+    it('should convert timeout aborts to TimeoutError', async () => {
+      const cause = new DOMException('timed out', 'TimeoutError');
+      const mockFetch = vi.fn().mockRejectedValue(cause);
+
+      const err = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com')
+        .pipe(fetch)
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(TimeoutError);
+      expect(err.cause).toBe(cause);
+    });
+
+    it('should not convert user aborts', async () => {
+      const cause = new DOMException('aborted', 'AbortError');
+      const mockFetch = vi.fn().mockRejectedValue(cause);
+
+      const err = await create({ fetch: mockFetch })
+        .pipe(throwHttpErrors)
+        .pipe(url, 'https://example.com')
+        .pipe(fetch)
+        .catch((e) => e);
+
+      expect(err).toBe(cause);
+    });
+  });
+});
@@ -106,4 +106,119 @@ describe('Fetch Tests', () => {
 
     mockFetch.should.toHaveBeenCalledWith('/test', {});
   });
+
+  it('should fill path params into the url', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(new Response('Success'));
+    const instance = ff
+      .create({ baseUrl: 'https://api.example.com:8080', fetch: mockFetch })
+      .pipe(ff.url, '/users/:userId/posts/:postId')
+      .pipe(ff.params, { userId: 42, postId: 'a/b c' })
+      .pipe(ff.query, 'page=1');
+
+    await instance.pipe(ff.fetch);
+
+    mockFetch.should.toHaveBeenCalledWith(
+      'https://api.example.com:8080/users/42/posts/a%2Fb%20c?page=1',
+      {}
+    );
+  });
+
+  it('should require all path params at the type level', () => {
+    const instance = ff
+      .create({ fetch: vi.fn() })
+      .pipe(ff.url, '/users/:userId/posts/:postId.json');
+
+    type Names = ff.PathParamNames<typeof instance.url>;
+    const _names: ['userId' | 'postId'] extends [Names] ? true : false = true;
+    _names.should.be.true;
+
+    // @ts-expect-error - postId is missing
+    () => instance.pipe(ff.params, { userId: 1 }).pipe(ff.fetch);
+    // @ts-expect-error - no params at all
+    () => ff.fetchJSON(instance);
+
+    instance.pipe(ff.params, { userId: 1, postId: 2 }).pipe(ff.fetch);
+  });
+
+  describe('validate', () => {
+    type User = { id: number; name: string };
+
+    // A minimal Standard Schema validator
+    const userSchema: ff.StandardSchemaV1<unknown, User> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate(value) {
+          const v = value as Record<string, unknown>;
+          const issues = [];
+          if (typeof v.id !== 'number') {
+            issues.push({ message: 'Expected number', path: ['id'] });
+          }
+          if (typeof v.name !== 'string') {
+            issues.push({ message: 'Expected string', path: [{ key: 'name' }] });
+          }
+          return issues.length
+            ? { issues }
+            : { value: { id: v.id as number, name: v.name as string } };
+        },
+      },
+    };
+
+    it('should return validated data with the schema output type', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(new Response('{"id":1,"name":"a","extra":true}'));
+      const user = await ff
+        .create({ url: 'https://example.com/users/1', fetch: mockFetch })
+        .pipe(ff.validate, userSchema)
+        .pipe(ff.fetchJSON);
+
+      const _type: User = user;
+      user.should.be.eql({ id: 1, name: 'a' });
+    });
+
+    it('should support async validators', async () => {
+      const asyncSchema: ff.StandardSchemaV1<unknown, User> = {
+        '~standard': {
+          ...userSchema['~standard'],
+          validate: async (value) => userSchema['~standard'].validate(value),
+        },
+      };
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(new Response('{"id":1,"name":"a"}'));
+      const user = await ff
+        .create({ url: 'https://example.com/users/1', fetch: mockFetch })
+        .pipe(ff.validate, asyncSchema)
+        .pipe(ff.json)
+        .pipe(ff.fetchData);
+
+      user.name.should.be.equal('a');
+    });
+
+    it('should throw ResponseValidationError with issues', async () => {
+      const mockFetch = vi
+        .fn()
+        .mockResolvedValue(new Response('{"id":"1"}'));
+      const err = await ff
+        .create({ url: 'https://example.com/users/1', fetch: mockFetch })
+        .pipe(ff.validate, userSchema)
+        .pipe(ff.fetchJSON)
+        .then(null, (e) => e);
+
+      err.should.be.instanceOf(ff.ResponseValidationError);
+      err.should.be.instanceOf(ff.HTTPError);
+      err.url.should.be.equal('https://example.com/users/1');
+      err.method.should.be.equal('GET');
+      err.data.should.be.eql({ id: '1' });
+      err.issues.should.have.length(2);
+      err.message.should.be.equal(
+        [
+          'Response validation failed: GET https://example.com/users/1',
+          '  - id: Expected number',
+          '  - name: Expected string',
+        ].join('\n')
+      );
+    });
+  });
 });
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  fetch,
+  method,
+  signal,
+  use,
+  withRetry,
+  withHedging,
+  withConcurrency,
+  sortMiddlewares,
+  createMockFetch,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+describe('Hedging', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should sit between retry and concurrency', () => {
+    const hedging = withHedging({ delay: 100 });
+    expect(hedging.name).toBe('builtin:hedging');
+    expect(
+      sortMiddlewares([
+        withConcurrency({ max: 1 }),
+        hedging,
+        withRetry(1),
+      ]).map((entry) => entry.name)
+    ).toEqual(['builtin:retry', 'builtin:hedging', 'builtin:concurrency']);
+  });
+
+  it('should not hedge fast responses', async () => {
+    const mockFetch = createMockFetch().get('/items', { delay: 50 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 100 }))
+      .pipe(url, '/items');
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(200);
+    expect((await response).status).toBe(200);
+    expect(mockFetch.calls).toHaveLength(1);
+  });
+
+  it('should take the first response and abort the others', async () => {
+    const onWin = vi.fn();
+    const mockFetch = createMockFetch().get('/items', [
+      { delay: 1000, json: 'slow' },
+      { delay: 50, json: 'fast' },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 100, onWin }))
+      .pipe(url, '/items');
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(mockFetch.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(51);
+
+    expect(await (await response).json()).toBe('fast');
+    expect(onWin).toHaveBeenCalledWith(1, expect.anything());
+    expect(mockFetch.calls).toHaveLength(2);
+    expect(mockFetch.calls[0]!.init.signal!.aborted).toBe(true);
+    expect(mockFetch.calls[1]!.init.signal!.aborted).toBe(false);
+  });
+
+  it('should send up to maxHedges hedges', async () => {
+    const onWin = vi.fn();
+    const mockFetch = createMockFetch().get('/items', { delay: 1000 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 100, maxHedges: 2, onWin }))
+      .pipe(url, '/items');
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(mockFetch.calls).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(500);
+    await response;
+    expect(onWin).toHaveBeenCalledWith(0, expect.anything());
+  });
+
+  it('should hedge right away after a failure', async () => {
+    const mockFetch = createMockFetch().get('/items', [
+      { error: true },
+      { json: 'ok' },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 1000 }))
+      .pipe(url, '/items');
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await (await response).json()).toBe('ok');
+    expect(mockFetch.calls).toHaveLength(2);
+  });
+
+  it('should reject when every attempt failed', async () => {
+    const mockFetch = createMockFetch().get('/items', { error: true });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 100, maxHedges: 2 }))
+      .pipe(url, '/items');
+
+    await expect(client.pipe(fetch)).rejects.toThrow('fetch failed');
+    expect(mockFetch.calls).toHaveLength(3);
+  });
+
+  it('should not hedge unsafe methods', async () => {
+    const mockFetch = createMockFetch().post('/items', { delay: 1000 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 100 }))
+      .pipe(url, '/items')
+      .pipe(method, 'POST');
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(1000);
+    await response;
+    expect(mockFetch.calls).toHaveLength(1);
+  });
+
+  it('should abort every attempt when the signal aborts', async () => {
+    const controller = new AbortController();
+    const mockFetch = createMockFetch().get('/items', { delay: 1000 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withHedging({ delay: 100 }))
+      .pipe(url, '/items')
+      .pipe(signal, controller.signal);
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(100);
+    const assertion = expect(response).rejects.toThrow('stop');
+    controller.abort(new Error('stop'));
+    await assertion;
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch.calls).toHaveLength(2);
+    expect(mockFetch.calls.every((req) => req.init.signal!.aborted)).toBe(
+      true
+    );
+  });
+});
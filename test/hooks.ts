@@ -0,0 +1,322 @@
+import { afterEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  fetch,
+  use,
+  retry,
+  timeout,
+  withRetry,
+  withAuth,
+  createRetryBase,
+  throwHttpErrors,
+  beforeRequest,
+  afterResponse,
+  beforeRetry,
+  beforeError,
+  sortMiddlewares,
+  createMockFetch,
+  ClientError,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+describe('Hooks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register one middleware per kind around retry', () => {
+    const o = create()
+      .pipe(afterResponse, () => {})
+      .pipe(beforeError, (e) => e)
+      .pipe(throwHttpErrors)
+      .pipe(beforeRequest, () => {})
+      .pipe(beforeRequest, () => {})
+      .pipe(use, withRetry({ retries: 1, backoff: () => 0 }))
+      .pipe(beforeRetry, () => {});
+
+    expect(sortMiddlewares(o.middlewares).map((entry) => entry.name)).toEqual([
+      'builtin:before-error',
+      'builtin:http-errors',
+      'builtin:retry',
+      'builtin:before-retry',
+      'builtin:before-request',
+      'builtin:after-response',
+    ]);
+  });
+
+  it('should wrap http-errors with beforeError whatever the order', () => {
+    const o = create()
+      .pipe(throwHttpErrors)
+      .pipe(beforeError, (e) => e);
+
+    expect(sortMiddlewares(o.middlewares).map((entry) => entry.name)).toEqual([
+      'builtin:before-error',
+      'builtin:http-errors',
+    ]);
+  });
+
+  describe('beforeRequest', () => {
+    it('should run hooks in order on the request view', async () => {
+      const mockFetch = createMockFetch().post('/users', { status: 201 });
+      await create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeRequest, (request) => {
+          request.headers.set('X-Trace', 'a');
+          request.method = 'POST';
+        })
+        .pipe(beforeRequest, (request, o) => {
+          request.headers.append('X-Trace', 'b');
+          request.url = `${request.url}?via=${o.url}`;
+        })
+        .pipe(url, '/users')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.method).toBe('POST');
+      expect(req.url).toBe(`${baseUrl}/users?via=/users`);
+      expect(req.headers.get('X-Trace')).toBe('a, b');
+    });
+
+    it('should send the request headers on to inner middlewares', async () => {
+      const mockFetch = createMockFetch().get('/users', { status: 200 });
+      await create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeRequest, (request) => {
+          request.headers.set('X-Trace', 'a');
+        })
+        .pipe(use, withAuth('token'))
+        .pipe(header, 'Accept', 'application/json')
+        .pipe(url, '/users')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('X-Trace')).toBe('a');
+      expect(req.headers.get('Accept')).toBe('application/json');
+      expect(req.headers.get('Authorization')).toBe('Bearer token');
+    });
+
+    it('should read a Request input', async () => {
+      const mockFetch = createMockFetch().put('/users/1', (req) => ({
+        body: req.body as string,
+      }));
+      const toRequest: MiddlewareFn = (f) => (input) =>
+        f(
+          new Request(String(input), {
+            method: 'PUT',
+            headers: { 'X-Trace': 'a' },
+            body: 'data',
+          })
+        );
+      const seen = vi.fn();
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(use, toRequest)
+        .pipe(beforeRequest, (request) => {
+          seen({ ...request, trace: request.headers.get('X-Trace') });
+        })
+        .pipe(url, '/users/1')
+        .pipe(fetch);
+
+      expect(seen).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: `${baseUrl}/users/1`,
+          method: 'PUT',
+          trace: 'a',
+        })
+      );
+      expect(mockFetch.calls[0]!.method).toBe('PUT');
+      expect(await res.text()).toBe('data');
+    });
+
+    it('should short-circuit with a response', async () => {
+      const mockFetch = createMockFetch();
+      const second = vi.fn();
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeRequest, () => new Response('cached'))
+        .pipe(beforeRequest, second)
+        .pipe(url, '/users')
+        .pipe(fetch);
+
+      expect(await res.text()).toBe('cached');
+      expect(second).not.toHaveBeenCalled();
+      expect(mockFetch.calls).toHaveLength(0);
+    });
+  });
+
+  describe('afterResponse', () => {
+    it('should replace the response', async () => {
+      const mockFetch = createMockFetch().delete('/users/1', { status: 204 });
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(afterResponse, (request, response) =>
+          request.method === 'DELETE' && response.status === 204
+            ? new Response(null, { status: 200 })
+            : undefined
+        )
+        .pipe(afterResponse, (_, response) => {
+          expect(response.status).toBe(200);
+        })
+        .pipe(url, '/users/1')
+        .pipe(method, 'DELETE')
+        .pipe(fetch);
+
+      expect(res.status).toBe(200);
+    });
+
+    it('should see each attempt', async () => {
+      const mockFetch = createMockFetch().get('/flaky', [
+        { status: 503 },
+        { status: 200 },
+      ]);
+      const statuses: number[] = [];
+      await create({ baseUrl, fetch: mockFetch })
+        .pipe(afterResponse, (_, response) => {
+          statuses.push(response.status);
+        })
+        .pipe(
+          use,
+          withRetry({ retries: 1, statusCodes: [503], backoff: () => 0 })
+        )
+        .pipe(url, '/flaky')
+        .pipe(fetch);
+
+      expect(statuses).toEqual([503, 200]);
+    });
+  });
+
+  describe('beforeRetry', () => {
+    it('should run before each retry with the failed attempt', async () => {
+      const mockFetch = createMockFetch().get('/flaky', [
+        { status: 503 },
+        { error: true },
+        { status: 200 },
+      ]);
+      const hook = vi.fn((request, { attempt }) => {
+        request.headers.set('X-Retry', String(attempt + 1));
+      });
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeRetry, hook)
+        .pipe(
+          use,
+          withRetry({ retries: 2, statusCodes: [503], backoff: () => 0 })
+        )
+        .pipe(url, '/flaky')
+        .pipe(fetch);
+
+      expect(res.status).toBe(200);
+      expect(hook).toHaveBeenCalledTimes(2);
+      expect(hook.mock.calls[0]![1]).toMatchObject({
+        attempt: 0,
+        response: expect.objectContaining({ status: 503 }),
+      });
+      expect(hook.mock.calls[1]![1]).toMatchObject({
+        attempt: 1,
+        error: expect.any(TypeError),
+      });
+      expect(mockFetch.calls.map((req) => req.headers.get('X-Retry'))).toEqual(
+        [null, '1', '2']
+      );
+    });
+
+    it('should see the attempts through an attempt timeout', async () => {
+      const mockFetch = createMockFetch().get('/flaky', [
+        { status: 503 },
+        { status: 503 },
+        { status: 200 },
+      ]);
+      const attempts: number[] = [];
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(retry, { retries: 2, statusCodes: [503], backoff: () => 0 })
+        .pipe(timeout, { attempt: 1000 })
+        .pipe(beforeRetry, (_, { attempt }) => {
+          attempts.push(attempt);
+        })
+        .pipe(url, '/flaky')
+        .pipe(fetch);
+
+      expect(res.status).toBe(200);
+      expect(attempts).toEqual([0, 1]);
+    });
+
+    it('should run with custom retry middlewares', async () => {
+      const mockFetch = createMockFetch().get('/down', [
+        { error: true },
+        { status: 200 },
+      ]);
+      const hook = vi.fn();
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(
+          use,
+          createRetryBase(async (attempt, error) => {
+            if (attempt >= 1) throw error;
+          })
+        )
+        .pipe(beforeRetry, hook)
+        .pipe(url, '/down')
+        .pipe(fetch);
+
+      expect(res.status).toBe(200);
+      expect(hook).toHaveBeenCalledTimes(1);
+      expect(hook.mock.calls[0]![1]).toMatchObject({
+        attempt: 0,
+        error: expect.any(TypeError),
+      });
+    });
+
+    it('should not run for the first attempt', async () => {
+      const mockFetch = createMockFetch().get('/ok', { status: 200 });
+      const hook = vi.fn();
+      await create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeRetry, hook)
+        .pipe(url, '/ok')
+        .pipe(fetch);
+      await create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeRetry, hook)
+        .pipe(url, '/ok')
+        .pipe(fetch);
+
+      expect(hook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('beforeError', () => {
+    it('should replace the error after all retries', async () => {
+      const mockFetch = createMockFetch().get('/missing', { status: 404 });
+      const hook = vi.fn((error: unknown) =>
+        error instanceof ClientError
+          ? new Error(`Not found: ${error.url}`)
+          : undefined
+      );
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeError, hook)
+        .pipe(throwHttpErrors)
+        .pipe(
+          use,
+          withRetry({ retries: 1, statusCodes: [404], backoff: () => 0 })
+        )
+        .pipe(url, '/missing');
+
+      await expect(client.pipe(fetch)).rejects.toThrow(
+        `Not found: ${baseUrl}/missing`
+      );
+      expect(mockFetch.calls).toHaveLength(2);
+      expect(hook).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the error when hooks return undefined', async () => {
+      const mockFetch = createMockFetch().get('/down', { error: true });
+      const hook = vi.fn();
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(beforeError, hook)
+        .pipe(url, '/down');
+
+      await expect(client.pipe(fetch)).rejects.toBeInstanceOf(TypeError);
+      expect(hook).toHaveBeenCalledWith(
+        expect.any(TypeError),
+        expect.objectContaining({ url: `${baseUrl}/down`, method: 'GET' }),
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  binaryBody,
+  fetch,
+  use,
+  withRetry,
+  withHttpAuth,
+  parseAuthChallenges,
+  sortMiddlewares,
+  createMockFetch,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+// RFC 7616 section 3.9.1
+const rfc = {
+  username: 'Mufasa',
+  password: 'Circle of Life',
+  realm: 'http-auth@example.org',
+  nonce: '7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v',
+  opaque: 'FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS',
+  cnonce: 'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ',
+};
+
+function challenge(algorithm: string, nonce = rfc.nonce, stale = false) {
+  return (
+    `Digest realm="${rfc.realm}", qop="auth, auth-int", ` +
+    `algorithm=${algorithm}, nonce="${nonce}", opaque="${rfc.opaque}"` +
+    (stale ? ', stale=true' : '')
+  );
+}
+
+// Accepts requests with an Authorization header, challenges the others
+function protectedFetch(wwwAuthenticate: string) {
+  return createMockFetch().get('/dir/index.html', (req) =>
+    req.headers.has('Authorization')
+      ? { status: 200 }
+      : { status: 401, headers: { 'WWW-Authenticate': wwwAuthenticate } }
+  );
+}
+
+describe('HTTP authentication', () => {
+  it('should sit inside retry', () => {
+    const httpAuth = withHttpAuth({ username: 'u', password: 'p' });
+    expect(httpAuth.name).toBe('builtin:http-auth');
+    expect(
+      sortMiddlewares([httpAuth, withRetry(1)]).map((entry) => entry.name)
+    ).toEqual(['builtin:retry', 'builtin:http-auth']);
+  });
+
+  describe('parseAuthChallenges', () => {
+    it('should parse several challenges', () => {
+      expect(
+        parseAuthChallenges(
+          'Digest realm="a \\"b\\"", qop="auth,auth-int", nonce=xyz, ' +
+            'Basic realm="c, d", charset="UTF-8"'
+        )
+      ).toEqual([
+        {
+          scheme: 'Digest',
+          params: { realm: 'a "b"', qop: 'auth,auth-int', nonce: 'xyz' },
+        },
+        { scheme: 'Basic', params: { realm: 'c, d', charset: 'UTF-8' } },
+      ]);
+      expect(parseAuthChallenges(null)).toEqual([]);
+    });
+  });
+
+  describe('withHttpAuth', () => {
+    const client = (mockFetch: ReturnType<typeof createMockFetch>) =>
+      create({ fetch: mockFetch })
+        .pipe(
+          use,
+          withHttpAuth({
+            username: rfc.username,
+            password: rfc.password,
+            cnonce: () => rfc.cnonce,
+          })
+        )
+        .pipe(url, 'http://www.example.org/dir/index.html');
+
+    it('should answer an MD5 Digest challenge', async () => {
+      const mockFetch = protectedFetch(challenge('MD5'));
+
+      expect((await client(mockFetch).pipe(fetch)).status).toBe(200);
+      expect(mockFetch.calls[1]!.headers.get('Authorization')).toBe(
+        `Digest username="Mufasa", realm="${rfc.realm}", ` +
+          `nonce="${rfc.nonce}", uri="/dir/index.html", algorithm=MD5, ` +
+          `qop=auth, nc=00000001, cnonce="${rfc.cnonce}", ` +
+          'response="8ca523f5e9506fed4657c9700eebdbec", ' +
+          `opaque="${rfc.opaque}"`
+      );
+    });
+
+    it('should answer a SHA-256 Digest challenge', async () => {
+      const mockFetch = protectedFetch(challenge('SHA-256'));
+
+      await client(mockFetch).pipe(fetch);
+      expect(mockFetch.calls[1]!.headers.get('Authorization')).toContain(
+        'response="' +
+          '753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1"'
+      );
+    });
+
+    it('should reuse the nonce with an incremented count', async () => {
+      const mockFetch = protectedFetch(challenge('MD5'));
+      const authorized = client(mockFetch);
+
+      await authorized.pipe(fetch);
+      await authorized.pipe(fetch);
+      expect(mockFetch.calls).toHaveLength(3);
+      expect(mockFetch.calls[2]!.headers.get('Authorization')).toContain(
+        'nc=00000002'
+      );
+    });
+
+    it('should renew a stale nonce', async () => {
+      let nonce = 'old';
+      const mockFetch = createMockFetch().get('/dir/index.html', (req) => {
+        const sent = req.headers.get('Authorization');
+        if (sent?.includes(`nonce="${nonce}"`)) return { status: 200 };
+        return {
+          status: 401,
+          headers: { 'WWW-Authenticate': challenge('MD5', nonce, !!sent) },
+        };
+      });
+      const authorized = client(mockFetch);
+
+      expect((await authorized.pipe(fetch)).status).toBe(200);
+      nonce = 'fresh';
+      expect((await authorized.pipe(fetch)).status).toBe(200);
+      expect(
+        mockFetch.calls.map(
+          (req) =>
+            /nonce="(\w+)"/.exec(req.headers.get('Authorization') || '')?.[1]
+        )
+      ).toEqual([undefined, 'old', 'old', 'fresh']);
+    });
+
+    it('should fall back to Basic', async () => {
+      const mockFetch = protectedFetch('Basic realm="api", Negotiate');
+
+      expect((await client(mockFetch).pipe(fetch)).status).toBe(200);
+      expect(mockFetch.calls[1]!.headers.get('Authorization')).toBe(
+        `Basic ${btoa('Mufasa:Circle of Life')}`
+      );
+    });
+
+    it('should keep the request headers for inner middlewares', async () => {
+      const mockFetch = protectedFetch('Basic realm="api"');
+      // Middlewares may spread the headers as a record
+      const trace: MiddlewareFn = (f) => (input, init) =>
+        f(input, {
+          ...init,
+          headers: {
+            ...(init?.headers as Record<string, string>),
+            'X-Hop': '1',
+          },
+        });
+      await client(mockFetch)
+        .pipe(use, trace)
+        .pipe(header, 'X-Trace', 't1')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[1]!;
+      expect(req.headers.get('Authorization')).toBe(
+        `Basic ${btoa('Mufasa:Circle of Life')}`
+      );
+      expect(req.headers.get('X-Trace')).toBe('t1');
+      expect(req.headers.get('X-Hop')).toBe('1');
+    });
+
+    it('should not replay a stream body', async () => {
+      const mockFetch = createMockFetch().post('/dir/index.html', (req) =>
+        req.headers.has('Authorization')
+          ? { status: 200 }
+          : {
+              status: 401,
+              headers: { 'WWW-Authenticate': 'Basic realm="api"' },
+            }
+      );
+      const authorized = client(mockFetch);
+      const upload = () =>
+        authorized
+          .pipe(method, 'POST')
+          .pipe(binaryBody, new Blob(['data']).stream())
+          .pipe(fetch);
+
+      expect((await upload()).status).toBe(401);
+      expect(mockFetch.calls).toHaveLength(1);
+      // Later requests answer the cached challenge up front
+      expect((await upload()).status).toBe(200);
+      expect(mockFetch.calls).toHaveLength(2);
+    });
+
+    it('should not replay rejected Basic credentials', async () => {
+      const mockFetch = createMockFetch().get('/dir/index.html', {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Basic realm="api"' },
+      });
+      const authorized = client(mockFetch);
+
+      expect((await authorized.pipe(fetch)).status).toBe(401);
+      expect((await authorized.pipe(fetch)).status).toBe(401);
+      expect(mockFetch.calls).toHaveLength(3);
+    });
+
+    it('should ignore unsupported challenges', async () => {
+      const mockFetch = protectedFetch(challenge('SHA-512-256'));
+
+      expect((await client(mockFetch).pipe(fetch)).status).toBe(401);
+      expect(mockFetch.calls).toHaveLength(1);
+    });
+  });
+});
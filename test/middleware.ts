@@ -7,8 +7,13 @@ import {
   use,
   withRetry,
   withTimeout,
+  withAttemptTimeout,
+  TimeoutError,
   withAuth,
   withLogging,
+  createRetryPolicy,
+  parseRetryAfter,
+  method,
   sortMiddlewares,
   normalizeMiddleware,
   NORMAL,
@@ -64,6 +69,307 @@ describe('Middleware Tests', () => {
   });
 });
 
+describe('createRetryPolicy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const noDelay = () => 0;
+
+  it('should retry on retryable status codes', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockResolvedValue(new Response('ok'));
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(retry, { retries: 3, backoff: noDelay })
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    await vi.runAllTimersAsync();
+    const res = await promise;
+
+    expect(res.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last response when retries are exhausted', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockImplementation(() =>
+        Promise.resolve(new Response(null, { status: 500 }))
+      );
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(retry, { retries: 2, backoff: noDelay })
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    await vi.runAllTimersAsync();
+    const res = await promise;
+
+    expect(res.status).toBe(500);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry status codes outside the list', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 404 }));
+
+    const res = await create({ fetch: mockFetch })
+      .pipe(retry, { retries: 3, backoff: noDelay })
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+
+    expect(res.status).toBe(404);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry non-idempotent methods by default', async () => {
+    const mockFetch = vi.fn().mockRejectedValue(new Error('Network'));
+
+    await expect(
+      create({ fetch: mockFetch })
+        .pipe(retry, { retries: 3, backoff: noDelay })
+        .pipe(url, 'https://example.com')
+        .pipe(method, 'POST')
+        .pipe(fetch)
+    ).rejects.toThrow('Network');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry configured methods', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('Network'))
+      .mockResolvedValue(new Response('ok'));
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(retry, { retries: 1, methods: ['POST'], backoff: noDelay })
+      .pipe(url, 'https://example.com')
+      .pipe(method, 'POST')
+      .pipe(fetch);
+    await vi.runAllTimersAsync();
+    await promise;
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should let retryOn override the built-in decision', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 404 }))
+      .mockResolvedValue(new Response('ok'));
+    const retryOn = vi.fn(({ response }) => response?.status === 404);
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(retry, { retries: 2, retryOn, backoff: noDelay })
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    await vi.runAllTimersAsync();
+    const res = await promise;
+
+    expect(res.status).toBe(200);
+    expect(retryOn.mock.calls[0]![0].attempt).toBe(0);
+  });
+
+  it('should not retry errors marked as not retryable', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockRejectedValue(asNotRetryError(new Error('Fatal')));
+
+    await expect(
+      create({ fetch: mockFetch })
+        .pipe(retry, { retries: 3, backoff: noDelay })
+        .pipe(url, 'https://example.com')
+        .pipe(fetch)
+    ).rejects.toThrow('Fatal');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for Retry-After seconds', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(null, { status: 503, headers: { 'Retry-After': '5' } })
+      )
+      .mockResolvedValue(new Response('ok'));
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(retry, { retries: 1, backoff: noDelay })
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await promise;
+  });
+
+  it('should cap Retry-After with maxRetryAfter', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response(null, { status: 429, headers: { 'Retry-After': '600' } })
+      )
+      .mockResolvedValue(new Response('ok'));
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(retry, { retries: 1, backoff: noDelay, maxRetryAfter: 1000 })
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await promise;
+  });
+
+  it('should stop waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(new Response(null, { status: 503 }));
+    const middleware = createRetryPolicy({ retries: 3, backoff: () => 10000 });
+
+    const promise = middleware(mockFetch, { url: 'https://example.com' })(
+      'https://example.com',
+      { signal: controller.signal }
+    );
+    const assertion = expect(promise).rejects.toThrow('stop');
+    controller.abort(new Error('stop'));
+    await assertion;
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay-seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120000);
+    });
+
+    it('should parse HTTP-date', () => {
+      vi.setSystemTime(new Date('2015-10-21T07:28:00Z'));
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT')).toBe(30000);
+    });
+
+    it('should return undefined for invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
+
+describe('Timeouts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // A fetch that never settles on its own but honors its signal
+  const hangingFetch = () =>
+    vi.fn((_input: RequestInfo | URL, init?: RequestInit) => {
+      return new Promise<Response>((_, reject) => {
+        init?.signal?.addEventListener('abort', () =>
+          reject(init.signal!.reason)
+        );
+      });
+    });
+
+  it('should reject with a total TimeoutError', async () => {
+    const mockFetch = hangingFetch();
+    const promise = create({ fetch: mockFetch })
+      .pipe(use, withTimeout(1000))
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    const assertion = expect(promise).rejects.toMatchObject({
+      name: 'TimeoutError',
+      limit: 'total',
+      timeout: 1000,
+      url: 'https://example.com',
+      method: 'GET',
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('should keep the caller signal', async () => {
+    const controller = new AbortController();
+    const mockFetch = hangingFetch();
+    const promise = create({ fetch: mockFetch, signal: controller.signal })
+      .pipe(use, withTimeout(1000))
+      .pipe(use, withAttemptTimeout(500))
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    const assertion = expect(promise).rejects.toThrow('cancelled');
+
+    controller.abort(new Error('cancelled'));
+    await assertion;
+  });
+
+  it('should reject even if fetch ignores the signal', async () => {
+    const mockFetch = vi.fn(() => new Promise<Response>(() => {}));
+    const promise = create({ fetch: mockFetch })
+      .pipe(use, withTimeout(1000))
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    const assertion = expect(promise).rejects.toBeInstanceOf(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('should time each attempt separately inside retry', async () => {
+    const hanging = hangingFetch();
+    const mockFetch = vi.fn((input: RequestInfo | URL, init?: RequestInit) =>
+      mockFetch.mock.calls.length === 1
+        ? hanging(input, init)
+        : Promise.resolve(new Response('ok'))
+    );
+
+    const promise = create({ fetch: mockFetch })
+      .pipe(use, withRetry({ retries: 1, backoff: () => 0 }))
+      .pipe(use, withAttemptTimeout(500))
+      .pipe(use, withTimeout(5000))
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await vi.advanceTimersByTimeAsync(1);
+    const res = await promise;
+
+    expect(res.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report the total limit when the deadline fires first', async () => {
+    const mockFetch = hangingFetch();
+    const promise = create({ fetch: mockFetch })
+      .pipe(use, withRetry({ retries: 5, backoff: () => 0 }))
+      .pipe(use, withAttemptTimeout(400))
+      .pipe(use, withTimeout(1000))
+      .pipe(url, 'https://example.com')
+      .pipe(fetch);
+    const assertion = expect(promise).rejects.toMatchObject({
+      limit: 'total',
+    });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+});
+
 describe('Middleware Ordering', () => {
   describe('normalizeMiddleware', () => {
     it('should normalize a simple function to MiddlewareEntry', () => {
@@ -237,6 +543,43 @@ describe('Middleware Ordering', () => {
       expect(sorted).toEqual([a]);
     });
 
+    it('should keep sorting when an inner target is absent', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const a: MiddlewareEntry = {
+        name: 'a',
+        inner: 'non-existent',
+        middleware: (f) => f,
+      };
+      const b: MiddlewareEntry = {
+        name: 'b',
+        outer: 'a',
+        middleware: (f) => f,
+      };
+
+      expect(sortMiddlewares([a, b]).map((e) => e.name)).toEqual(['b', 'a']);
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should handle constraints listing several middlewares', () => {
+      const a: MiddlewareEntry = { name: 'a', middleware: (f) => f };
+      const b: MiddlewareEntry = {
+        name: 'b',
+        outer: ['a', 'c'], // b wraps a and c
+        middleware: (f) => f,
+      };
+      const c: MiddlewareEntry = { name: 'c', middleware: (f) => f };
+      const d: MiddlewareEntry = {
+        name: 'd',
+        inner: ['a', 'c'], // d is inside a and c
+        middleware: (f) => f,
+      };
+
+      const names = sortMiddlewares([d, c, a, b]).map((e) => e.name);
+      expect(names[0]).toBe('b');
+      expect(names[3]).toBe('d');
+    });
+
     it('should handle middleware with both outer and inner constraints', () => {
       const a: MiddlewareEntry = { name: 'a', middleware: (f) => f };
       const b: MiddlewareEntry = {
@@ -376,6 +719,25 @@ describe('Middleware Ordering', () => {
       ).toBe('value');
     });
 
+    it('withAuth middleware should accept Headers', async () => {
+      const config = withAuth('my-token');
+      let capturedInit: RequestInit | undefined;
+      const mockFetch = vi.fn().mockImplementation((_, init) => {
+        capturedInit = init;
+        return Promise.resolve(new Response('ok'));
+      });
+
+      const wrappedFetch = config.middleware(mockFetch as any, {} as any);
+      await wrappedFetch('https://example.com', {
+        headers: new Headers({ 'X-Custom': 'value', Authorization: 'old' }),
+      });
+
+      expect(capturedInit?.headers).toEqual({
+        'x-custom': 'value',
+        Authorization: 'Bearer my-token',
+      });
+    });
+
     it('withAuth middleware should work without existing headers', async () => {
       const config = withAuth('my-token');
       let capturedInit: RequestInit | undefined;
@@ -0,0 +1,180 @@
+import { afterEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  query,
+  jsonBody,
+  fetch,
+  fetchJSON,
+  signal,
+  createMockFetch,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+describe('createMockFetch', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reply to matching routes with path params', async () => {
+    const mockFetch = createMockFetch().get('/users/:id', (req) => ({
+      json: { id: req.params.id },
+    }));
+    const client = create({ baseUrl, fetch: mockFetch });
+
+    expect(await client.pipe(url, '/users/a%20b').pipe(fetchJSON)).toEqual({
+      id: 'a b',
+    });
+    expect(mockFetch.calls[0]!.params).toEqual({ id: 'a b' });
+  });
+
+  it('should match by method', async () => {
+    const mockFetch = createMockFetch()
+      .get('/users', { json: 'list' })
+      .post('/users', { status: 201, json: 'created' });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/users');
+
+    const res = await client
+      .pipe(method, 'post')
+      .pipe(jsonBody, { name: 'a' })
+      .pipe(fetch);
+    expect(res.status).toBe(201);
+    expect(res.headers.get('Content-Type')).toBe('application/json');
+    expect(await res.json()).toBe('created');
+    expect(mockFetch.calls[0]!.body).toBe('{"name":"a"}');
+    expect(await client.pipe(fetchJSON)).toBe('list');
+  });
+
+  it('should match query and headers', async () => {
+    const mockFetch = createMockFetch()
+      .get('/search', { json: 'tagged' }, { query: { tag: ['a', 'b'] } })
+      .get('/search', { json: 'v2' }, { headers: { 'X-Version': '2' } })
+      .get('/search', { json: 'any' });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/search');
+
+    expect(
+      await client.pipe(query, 'tag=b&tag=a&page=1').pipe(fetchJSON)
+    ).toBe('tagged');
+    expect(await client.pipe(query, 'tag=a').pipe(fetchJSON)).toBe('any');
+    expect(
+      await client.pipe(header, 'X-Version', '2').pipe(fetchJSON)
+    ).toBe('v2');
+  });
+
+  it('should match absolute URLs and regular expressions', async () => {
+    const mockFetch = createMockFetch()
+      .route({ path: `${baseUrl}/a`, reply: { body: 'absolute' } })
+      .route({ path: /\/b\?x=1$/, reply: { body: 'regexp' } });
+
+    expect(await (await mockFetch(`${baseUrl}/a`)).text()).toBe('absolute');
+    expect(await (await mockFetch(`${baseUrl}/b?x=1`)).text()).toBe('regexp');
+    await expect(mockFetch('https://other.com/a')).rejects.toThrow(
+      'No mock route matched: GET https://other.com/a'
+    );
+  });
+
+  it('should match a global regular expression every time', async () => {
+    const mockFetch = createMockFetch().get(/\/items/g, { body: 'items' });
+
+    expect(await (await mockFetch(`${baseUrl}/items`)).text()).toBe('items');
+    expect(await (await mockFetch(`${baseUrl}/items`)).text()).toBe('items');
+    expect(mockFetch.callsTo('GET', /\/items/g)).toHaveLength(2);
+  });
+
+  it('should not match malformed path params', async () => {
+    const mockFetch = createMockFetch({
+      onUnmatched: () => new Response(null, { status: 404 }),
+    }).get('/users/:id', { json: {} });
+
+    const res = await mockFetch(`${baseUrl}/users/%E0%A4%A`);
+
+    expect(res.status).toBe(404);
+    expect(mockFetch.unmatched).toHaveLength(1);
+  });
+
+  it('should reply with a sequence and repeat the last reply', async () => {
+    const mockFetch = createMockFetch().get('/flaky', [
+      { error: true },
+      { status: 503 },
+      new Response('ok'),
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/flaky');
+
+    await expect(client.pipe(fetch)).rejects.toBeInstanceOf(TypeError);
+    expect((await client.pipe(fetch)).status).toBe(503);
+    expect(await (await client.pipe(fetch)).text()).toBe('ok');
+    expect(await (await client.pipe(fetch)).text()).toBe('ok');
+  });
+
+  it('should stop matching a route after times', async () => {
+    const mockFetch = createMockFetch()
+      .get('/once', { body: 'first' }, { times: 1 })
+      .get('/once', { body: 'rest' });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/once');
+
+    expect(await (await client.pipe(fetch)).text()).toBe('first');
+    expect(await (await client.pipe(fetch)).text()).toBe('rest');
+  });
+
+  it('should delay replies and honor the request signal', async () => {
+    vi.useFakeTimers();
+    const mockFetch = createMockFetch().get('/slow', {
+      delay: 1000,
+      body: 'done',
+    });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/slow');
+
+    const pending = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await (await pending).text()).toBe('done');
+
+    const controller = new AbortController();
+    const aborted = client.pipe(signal, controller.signal).pipe(fetch);
+    controller.abort(new Error('aborted'));
+    await expect(aborted).rejects.toThrow('aborted');
+  });
+
+  it('should record unmatched requests', async () => {
+    const mockFetch = createMockFetch({
+      onUnmatched: () => new Response(null, { status: 404 }),
+    }).get('/users', { json: [] });
+    const client = create({ baseUrl, fetch: mockFetch });
+
+    await client.pipe(url, '/users').pipe(fetch);
+    const res = await client.pipe(url, '/posts').pipe(fetch);
+
+    expect(res.status).toBe(404);
+    expect(mockFetch.calls).toHaveLength(2);
+    expect(mockFetch.unmatched.map((req) => req.url)).toEqual([
+      `${baseUrl}/posts`,
+    ]);
+    expect(() => mockFetch.assertNoUnmatched()).toThrow(
+      `Unmatched mock requests:\n  - GET ${baseUrl}/posts`
+    );
+  });
+
+  it('should filter recorded calls and reset', async () => {
+    const mockFetch = createMockFetch().route({
+      path: '/users/:id',
+      reply: { json: {} },
+    });
+    const client = create({ baseUrl, fetch: mockFetch });
+
+    await client.pipe(url, '/users/1').pipe(fetch);
+    await client.pipe(url, '/users/2').pipe(method, 'DELETE').pipe(fetch);
+
+    expect(
+      mockFetch.callsTo('GET', '/users/:id').map((req) => req.url)
+    ).toEqual([`${baseUrl}/users/1`]);
+    expect(mockFetch.callsTo('DELETE', '/users/2')).toHaveLength(1);
+
+    mockFetch.reset();
+    expect(mockFetch.calls).toHaveLength(0);
+    await expect(client.pipe(url, '/users/1').pipe(fetch)).rejects.toThrow(
+      'No mock route matched'
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  fetch,
+  use,
+  method,
+  header,
+  binaryBody,
+  withAuth,
+  withRetry,
+  withOAuth2,
+  clientCredentialsGrant,
+  refreshTokenGrant,
+  sortMiddlewares,
+  createMockFetch,
+  OAuth2Error,
+  type OAuth2Token,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+const tokenUrl = 'https://auth.example.com/token';
+
+describe('OAuth2', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should sit inside retry', () => {
+    const getToken = async () => ({ accessToken: 'a' });
+    const oauth2 = withOAuth2({ getToken });
+    expect(oauth2.name).toBe('builtin:oauth2');
+    expect(
+      sortMiddlewares([oauth2, withRetry(1)]).map((entry) => entry.name)
+    ).toEqual(['builtin:retry', 'builtin:oauth2']);
+  });
+
+  describe('clientCredentialsGrant', () => {
+    it('should request a token with basic client authentication', async () => {
+      const mockFetch = createMockFetch().post(tokenUrl, {
+        json: { access_token: 'abc', token_type: 'bearer', expires_in: 3600 },
+      });
+      const getToken = clientCredentialsGrant({
+        tokenUrl,
+        clientId: 'worker',
+        clientSecret: 's3cret',
+        scope: ['read', 'write'],
+        fetch: mockFetch,
+      });
+
+      vi.setSystemTime(0);
+      expect(await getToken()).toEqual({
+        accessToken: 'abc',
+        tokenType: 'bearer',
+        expiresAt: 3600000,
+        refreshToken: undefined,
+        scope: undefined,
+      });
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('Authorization')).toBe(
+        `Basic ${btoa('worker:s3cret')}`
+      );
+      expect(String(req.body)).toBe(
+        'grant_type=client_credentials&scope=read+write'
+      );
+    });
+
+    it('should ignore a malformed expires_in', async () => {
+      const mockFetch = createMockFetch().post(tokenUrl, {
+        json: { access_token: 'abc', expires_in: 'soon' },
+      });
+      const getToken = clientCredentialsGrant({
+        tokenUrl,
+        clientId: 'worker',
+        fetch: mockFetch,
+      });
+
+      expect((await getToken()).expiresAt).toBeUndefined();
+    });
+
+    it('should send credentials in the body', async () => {
+      const mockFetch = createMockFetch().post(tokenUrl, {
+        json: { access_token: 'abc' },
+      });
+      await clientCredentialsGrant({
+        tokenUrl,
+        clientId: 'worker',
+        clientSecret: 's3cret',
+        clientAuth: 'body',
+        fetch: mockFetch,
+      })();
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.has('Authorization')).toBe(false);
+      expect(String(req.body)).toBe(
+        'grant_type=client_credentials&client_id=worker&client_secret=s3cret'
+      );
+    });
+
+    it('should throw OAuth2Error on error responses', async () => {
+      const mockFetch = createMockFetch().post(tokenUrl, {
+        status: 400,
+        json: { error: 'invalid_client', error_description: 'Bad secret' },
+      });
+      const err = await clientCredentialsGrant({
+        tokenUrl,
+        clientId: 'worker',
+        clientSecret: 'wrong',
+        fetch: mockFetch,
+      })().then(null, (e) => e);
+
+      expect(err).toBeInstanceOf(OAuth2Error);
+      expect(err.code).toBe('invalid_client');
+      expect(err.message).toBe(
+        'Token request failed with status code 400: invalid_client (Bad secret)'
+      );
+    });
+  });
+
+  describe('refreshTokenGrant', () => {
+    it('should exchange the refresh token', async () => {
+      const mockFetch = createMockFetch().post(tokenUrl, {
+        json: { access_token: 'new' },
+      });
+      const refresh = refreshTokenGrant({
+        tokenUrl,
+        clientId: 'cli',
+        refreshToken: 'r1',
+        fetch: mockFetch,
+      });
+
+      expect((await refresh()).refreshToken).toBe('r1');
+      await refresh({ accessToken: 'old', refreshToken: 'r2' });
+      expect(mockFetch.calls.map((req) => String(req.body))).toEqual([
+        'grant_type=refresh_token&refresh_token=r1&client_id=cli',
+        'grant_type=refresh_token&refresh_token=r2&client_id=cli',
+      ]);
+    });
+  });
+
+  describe('withOAuth2', () => {
+    const api = () =>
+      createMockFetch().get('/me', (req) => {
+        const valid = req.headers.get('Authorization') === 'Bearer valid';
+        return { status: valid ? 200 : 401 };
+      });
+
+    it('should authorize requests and cache the token', async () => {
+      const mockFetch = api();
+      const getToken = vi.fn(async () => ({ accessToken: 'valid' }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(url, '/me');
+
+      expect((await client.pipe(fetch)).status).toBe(200);
+      expect((await client.pipe(fetch)).status).toBe(200);
+      expect(getToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share a single token request', async () => {
+      const mockFetch = api();
+      const getToken = vi.fn(async () => ({ accessToken: 'valid' }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(url, '/me');
+
+      await Promise.all([client.pipe(fetch), client.pipe(fetch)]);
+      expect(getToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should renew the token shortly before it expires', async () => {
+      vi.setSystemTime(0);
+      const mockFetch = api();
+      const getToken = vi.fn(async () => ({
+        accessToken: 'valid',
+        expiresAt: Date.now() + 60000,
+      }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken, expiryMargin: 10000 }))
+        .pipe(url, '/me');
+
+      await client.pipe(fetch);
+      vi.setSystemTime(49999);
+      await client.pipe(fetch);
+      expect(getToken).toHaveBeenCalledTimes(1);
+      vi.setSystemTime(50000);
+      await client.pipe(fetch);
+      expect(getToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the refresh token when renewing', async () => {
+      vi.setSystemTime(0);
+      const mockFetch = api();
+      const getToken = vi.fn(async () => ({
+        accessToken: 'valid',
+        expiresAt: 1000,
+        refreshToken: 'r1',
+      }));
+      const refreshToken = vi.fn(async (token: OAuth2Token) => ({
+        ...token,
+        expiresAt: Date.now() + 60000,
+      }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken, refreshToken, expiryMargin: 0 }))
+        .pipe(url, '/me');
+
+      await client.pipe(fetch);
+      vi.setSystemTime(1000);
+      await client.pipe(fetch);
+      expect(getToken).toHaveBeenCalledTimes(1);
+      expect(refreshToken).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshToken: 'r1' })
+      );
+    });
+
+    it('should replay the request once after a 401', async () => {
+      const mockFetch = api();
+      const tokens = ['revoked', 'valid', 'other'];
+      const getToken = vi.fn(async () => ({ accessToken: tokens.shift()! }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(url, '/me');
+
+      expect((await client.pipe(fetch)).status).toBe(200);
+      expect(
+        mockFetch.calls.map((req) => req.headers.get('Authorization'))
+      ).toEqual(['Bearer revoked', 'Bearer valid']);
+    });
+
+    it('should keep the request headers for inner middlewares', async () => {
+      const mockFetch = createMockFetch().get('/me', { status: 200 });
+      const getToken = async () => ({ accessToken: 'tok' });
+      await create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(use, withAuth('static'))
+        .pipe(url, '/me')
+        .pipe(header, 'X-Trace', 't1')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('X-Trace')).toBe('t1');
+      expect(req.headers.get('Authorization')).toBe('Bearer static');
+    });
+
+    it('should not replay a stream body after a 401', async () => {
+      const mockFetch = createMockFetch().post('/upload', { status: 401 });
+      const getToken = vi.fn(async () => ({ accessToken: 'revoked' }));
+      const res = await create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(url, '/upload')
+        .pipe(method, 'POST')
+        .pipe(binaryBody, new Blob(['data']).stream())
+        .pipe(fetch);
+
+      expect(res.status).toBe(401);
+      expect(mockFetch.calls).toHaveLength(1);
+    });
+
+    it('should treat a NaN expiry as no expiry', async () => {
+      const mockFetch = api();
+      const getToken = vi.fn(async () => ({
+        accessToken: 'valid',
+        expiresAt: NaN,
+      }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(url, '/me');
+
+      await client.pipe(fetch);
+      await client.pipe(fetch);
+      expect(getToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the second 401', async () => {
+      const mockFetch = api();
+      const getToken = vi.fn(async () => ({ accessToken: 'revoked' }));
+      const client = create({ baseUrl, fetch: mockFetch })
+        .pipe(use, withOAuth2({ getToken }))
+        .pipe(url, '/me');
+
+      expect((await client.pipe(fetch)).status).toBe(401);
+      expect(mockFetch.calls).toHaveLength(2);
+      expect(getToken).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  signal,
+  paginate,
+  parseLinkHeader,
+  linkPagination,
+  cursorPagination,
+  offsetPagination,
+  createMockFetch,
+  ServerError,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const result: T[] = [];
+  for await (const item of iterable) result.push(item);
+  return result;
+}
+
+describe('parseLinkHeader', () => {
+  it('should parse links by relation type', () => {
+    expect(
+      parseLinkHeader(
+        [
+          '<https://a.com/?page=2>; rel="next"',
+          '<https://a.com/?page=9>; rel="last  end"',
+          '</p1>; title="a, b"; rel=prev',
+        ].join(', ')
+      )
+    ).toEqual({
+      next: 'https://a.com/?page=2',
+      last: 'https://a.com/?page=9',
+      end: 'https://a.com/?page=9',
+      prev: '/p1',
+    });
+    expect(parseLinkHeader(null)).toEqual({});
+  });
+});
+
+describe('paginate', () => {
+  it('should follow Link rel="next"', async () => {
+    const mockFetch = createMockFetch()
+      .get('/items', {
+        json: [1, 2],
+        headers: { Link: '</items/p2>; rel="next"' },
+      })
+      .get('/items/p2', {
+        json: [3],
+        headers: { Link: `<${baseUrl}/items/p3?x=1>; rel="next"` },
+      })
+      .get('/items/p3', { json: [4] });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/items');
+
+    expect(
+      await collect(client.pipe(paginate<number>, { next: linkPagination() }))
+    ).toEqual([1, 2, 3, 4]);
+    expect(mockFetch.calls.map((req) => req.url)).toEqual([
+      `${baseUrl}/items`,
+      `${baseUrl}/items/p2`,
+      `${baseUrl}/items/p3?x=1`,
+    ]);
+  });
+
+  it('should keep Link URLs without an absolute base', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        Response.json([1], { headers: { Link: '</items/p2>; rel="next"' } })
+      )
+      .mockResolvedValueOnce(Response.json([2]));
+    const client = create({ fetch: mockFetch }).pipe(url, '/items');
+
+    expect(
+      await collect(client.pipe(paginate<number>, { next: linkPagination() }))
+    ).toEqual([1, 2]);
+    expect(mockFetch.mock.calls.map(([input]) => input)).toEqual([
+      '/items',
+      '/items/p2',
+    ]);
+  });
+
+  it('should paginate with a cursor from the body', async () => {
+    const mockFetch = createMockFetch()
+      .get('/events', { json: { items: ['c'], next: null } }, {
+        query: { cursor: 'b' },
+      })
+      .get('/events', { json: { items: ['b'], next: 'b' } }, {
+        query: { cursor: 'a' },
+      })
+      .get('/events', { json: { items: ['a'], next: 'a' } });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/events');
+
+    const pages = await collect(
+      client
+        .pipe(paginate<string>, {
+          next: cursorPagination<{ next: string | null }>({
+            cursor: (data) => data.next,
+          }),
+          items: (data: any) => data.items,
+        })
+        .pages()
+    );
+
+    expect(pages.map((page) => page.items)).toEqual([['a'], ['b'], ['c']]);
+    expect(pages.map((page) => page.page)).toEqual([0, 1, 2]);
+    expect(pages[2]!.data).toEqual({ items: ['c'], next: null });
+  });
+
+  it('should paginate with offset and limit', async () => {
+    const mockFetch = createMockFetch().get('/users', (req) => {
+      const offset = Number(req.query.get('offset'));
+      const limit = Number(req.query.get('limit'));
+      const all = [1, 2, 3, 4, 5];
+      return { json: all.slice(offset, offset + limit) };
+    });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/users');
+
+    expect(
+      await collect(
+        client.pipe(paginate, { next: offsetPagination({ limit: 2 }) })
+      )
+    ).toEqual([1, 2, 3, 4, 5]);
+    expect(mockFetch.calls.map((req) => req.query.toString())).toEqual([
+      'offset=0&limit=2',
+      'offset=2&limit=2',
+      'offset=4&limit=2',
+    ]);
+  });
+
+  it('should stop at maxPages and maxItems', async () => {
+    const mockFetch = createMockFetch().get('/users', (req) => ({
+      json: [Number(req.query.get('offset')), 0],
+    }));
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/users');
+    const next = offsetPagination({ limit: 2 });
+
+    expect(
+      await collect(client.pipe(paginate, { next, maxPages: 2 }))
+    ).toEqual([0, 0, 2, 0]);
+    expect(
+      await collect(client.pipe(paginate, { next, maxItems: 3 }))
+    ).toEqual([0, 0, 2]);
+    expect(mockFetch.calls).toHaveLength(4);
+  });
+
+  it('should accept a function returning the next request', async () => {
+    const mockFetch = createMockFetch()
+      .get('/a', { json: ['a'] })
+      .get('/b', { json: ['b'] });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/a');
+
+    expect(
+      await collect(
+        client.pipe(paginate, {
+          next: ({ options }) =>
+            options.url === '/a' ? { ...options, url: '/b' } : undefined,
+        })
+      )
+    ).toEqual(['a', 'b']);
+  });
+
+  it('should fail on error status', async () => {
+    const mockFetch = createMockFetch()
+      .get('/items', {
+        json: [1],
+        headers: { Link: '</items/2>; rel="next"' },
+      })
+      .get('/items/2', { status: 500, json: { error: 'down' } });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/items');
+
+    const items: unknown[] = [];
+    await expect(
+      (async () => {
+        for await (const item of client.pipe(paginate, {
+          next: linkPagination(),
+        })) {
+          items.push(item);
+        }
+      })()
+    ).rejects.toBeInstanceOf(ServerError);
+    expect(items).toEqual([1]);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const mockFetch = createMockFetch().get('/users', { json: [1, 2] });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(url, '/users')
+      .pipe(signal, controller.signal);
+
+    await expect(
+      (async () => {
+        for await (const _ of client.pipe(paginate, {
+          next: offsetPagination({ limit: 2 }),
+        })) {
+          controller.abort(new Error('stopped'));
+        }
+      })()
+    ).rejects.toThrow('stopped');
+    expect(mockFetch.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,289 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  fetch,
+  signal,
+  use,
+  retry,
+  withRetry,
+  withRateLimit,
+  withAttemptTimeout,
+  sortMiddlewares,
+  createMockFetch,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+describe('Rate limit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should sit between retry and attempt timeout', () => {
+    const rateLimit = withRateLimit({ tokensPerInterval: 1 });
+    expect(rateLimit.name).toBe('builtin:rate-limit');
+
+    const sorted = sortMiddlewares([
+      withAttemptTimeout(1000),
+      rateLimit,
+      withRetry(1),
+    ]);
+    expect(sorted.map((entry) => entry.name)).toEqual([
+      'builtin:retry',
+      'builtin:rate-limit',
+      'builtin:attempt-timeout',
+    ]);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => withRateLimit({ tokensPerInterval: 0 })).toThrow(RangeError);
+    expect(() => withRateLimit({ tokensPerInterval: -1 })).toThrow(
+      'tokensPerInterval must be positive, got -1'
+    );
+    expect(() => withRateLimit({ tokensPerInterval: NaN })).toThrow(
+      RangeError
+    );
+    expect(() => withRateLimit({ tokensPerInterval: 1, interval: 0 })).toThrow(
+      'interval must be positive, got 0'
+    );
+    expect(() => withRateLimit({ tokensPerInterval: 0.5 })).toThrow(
+      'burst must be at least 1, got 0.5'
+    );
+    expect(() =>
+      withRateLimit({ tokensPerInterval: 0.5, burst: 1 })
+    ).not.toThrow();
+  });
+
+  it('should queue requests beyond the burst', async () => {
+    const mockFetch = createMockFetch().get('/items', { json: [] });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 2, interval: 1000 }))
+      .pipe(url, '/items');
+
+    const responses = Promise.all(
+      Array.from({ length: 5 }, () => client.pipe(fetch))
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch.calls).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(mockFetch.calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch.calls).toHaveLength(5);
+    expect(await responses).toHaveLength(5);
+  });
+
+  it('should keep a bucket per host', async () => {
+    const mockFetch = createMockFetch()
+      .get('https://a.example.com/', { status: 204 })
+      .get('https://b.example.com/', { status: 204 });
+    const client = create({ fetch: mockFetch }).pipe(
+      use,
+      withRateLimit({ tokensPerInterval: 1, interval: 1000, key: 'host' })
+    );
+
+    const responses = Promise.all([
+      client.pipe(url, 'https://a.example.com/').pipe(fetch),
+      client.pipe(url, 'https://a.example.com/').pipe(fetch),
+      client.pipe(url, 'https://b.example.com/').pipe(fetch),
+    ]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch.calls.map((req) => req.url)).toEqual([
+      'https://a.example.com/',
+      'https://b.example.com/',
+    ]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch.calls).toHaveLength(3);
+    await responses;
+  });
+
+  it('should use a custom key', async () => {
+    const mockFetch = createMockFetch().get('/items', { status: 204 });
+    const key = vi.fn(() => 'shared');
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 1, key }))
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    expect(key).toHaveBeenCalledWith(
+      `${baseUrl}/items`,
+      expect.anything(),
+      expect.objectContaining({ url: '/items' })
+    );
+  });
+
+  it('should take a token for every retry attempt', async () => {
+    const mockFetch = createMockFetch().get('/items', [
+      { status: 503 },
+      { status: 204 },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(retry, { retries: 1, backoff: () => 0 })
+      .pipe(use, withRateLimit({ tokensPerInterval: 1, interval: 1000 }))
+      .pipe(url, '/items');
+
+    const response = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(mockFetch.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(2);
+    expect((await response).status).toBe(204);
+  });
+
+  it('should pause until the reported reset', async () => {
+    const mockFetch = createMockFetch().get('/items', [
+      {
+        status: 204,
+        headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '5' },
+      },
+      { status: 204 },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 10 }))
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    const next = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(mockFetch.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(2);
+    await next;
+  });
+
+  it('should read the RateLimit header', async () => {
+    const mockFetch = createMockFetch().get('/items', [
+      {
+        status: 204,
+        headers: { RateLimit: 'limit=10, remaining=0, reset=2' },
+      },
+      { status: 204 },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 10 }))
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    const next = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mockFetch.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(2);
+    await next;
+  });
+
+  it('should read the structured RateLimit header', async () => {
+    const mockFetch = createMockFetch().get('/items', [
+      {
+        status: 204,
+        headers: { RateLimit: '"burst";r=5;t=1, "daily";r=0;t=2' },
+      },
+      { status: 204 },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 10 }))
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    const next = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mockFetch.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(2);
+    await next;
+  });
+
+  it('should keep paused buckets while dropping full ones', async () => {
+    const mockFetch = createMockFetch()
+      .get('https://a.example.com/', [
+        {
+          status: 204,
+          headers: { 'RateLimit-Remaining': '0', 'RateLimit-Reset': '5' },
+        },
+        { status: 204 },
+      ])
+      .get('https://b.example.com/', { status: 204 });
+    const client = create({ fetch: mockFetch }).pipe(
+      use,
+      withRateLimit({ tokensPerInterval: 1, interval: 1000, key: 'host' })
+    );
+    const a = client.pipe(url, 'https://a.example.com/');
+    const b = client.pipe(url, 'https://b.example.com/');
+
+    await a.pipe(fetch);
+    await b.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(2000);
+    await b.pipe(fetch);
+    const next = a.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mockFetch.calls).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(4);
+    await next;
+  });
+
+  it('should pause for Retry-After on 429', async () => {
+    const mockFetch = createMockFetch().get('/items', [
+      { status: 429, headers: { 'Retry-After': '3' } },
+      { status: 204 },
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 10 }))
+      .pipe(url, '/items');
+
+    expect((await client.pipe(fetch)).status).toBe(429);
+    const next = client.pipe(fetch);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(mockFetch.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch.calls).toHaveLength(2);
+    await next;
+  });
+
+  it('should ignore headers when respectHeaders is false', async () => {
+    const mockFetch = createMockFetch().get('/items', {
+      status: 429,
+      headers: { 'Retry-After': '3' },
+    });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(
+        use,
+        withRateLimit({ tokensPerInterval: 10, respectHeaders: false })
+      )
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    await client.pipe(fetch);
+    expect(mockFetch.calls).toHaveLength(2);
+  });
+
+  it('should reject a queued request when its signal aborts', async () => {
+    const controller = new AbortController();
+    const mockFetch = createMockFetch().get('/items', { status: 204 });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withRateLimit({ tokensPerInterval: 1, interval: 1000 }))
+      .pipe(url, '/items');
+
+    await client.pipe(fetch);
+    const aborted = client.pipe(signal, controller.signal).pipe(fetch);
+    const queued = client.pipe(fetch);
+    const assertion = expect(aborted).rejects.toThrow('stop');
+    controller.abort(new Error('stop'));
+    await assertion;
+
+    // The aborted request gave up its place in the queue
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(mockFetch.calls).toHaveLength(2);
+    await queued;
+  });
+});
@@ -0,0 +1,250 @@
+import { afterEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  body,
+  fetch,
+  use,
+  withRetry,
+  withAuth,
+  withRedirects,
+  withCookieJar,
+  createMemoryCookieJar,
+  getRedirects,
+  sortMiddlewares,
+  createMockFetch,
+  RedirectError,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+const origin = 'https://example.com';
+
+function redirect(status: number, location: string) {
+  return { status, headers: { Location: location } };
+}
+
+describe('Redirects', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should wrap retry and the cookie jar', () => {
+    const redirects = withRedirects();
+    expect(redirects.name).toBe('builtin:redirects');
+    expect(
+      sortMiddlewares([
+        withCookieJar(createMemoryCookieJar()),
+        withRetry(1),
+        redirects,
+      ]).map((entry) => entry.name)
+    ).toEqual(['builtin:redirects', 'builtin:retry', 'builtin:cookie-jar']);
+  });
+
+  it('should follow redirects and record the chain', async () => {
+    const mockFetch = createMockFetch()
+      .get('/a', redirect(301, '/b'))
+      .get('/b', redirect(308, 'https://www.example.com/c'))
+      .get('https://www.example.com/c', { status: 200, body: 'done' });
+    const res = await create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(use, withRedirects())
+      .pipe(url, '/a')
+      .pipe(fetch);
+
+    expect(await res.text()).toBe('done');
+    expect(mockFetch.calls.every((req) => req.init.redirect === 'manual')).toBe(
+      true
+    );
+    expect(getRedirects(res)).toEqual([
+      { from: `${origin}/a`, to: `${origin}/b`, status: 301, method: 'GET' },
+      {
+        from: `${origin}/b`,
+        to: 'https://www.example.com/c',
+        status: 308,
+        method: 'GET',
+      },
+    ]);
+  });
+
+  it('should rewrite the method and body', async () => {
+    const mockFetch = createMockFetch()
+      .post('/form', redirect(303, '/result'))
+      .get('/result', { status: 200 })
+      .put('/upload', redirect(307, '/storage'))
+      .put('/storage', { status: 201 });
+    const client = create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(use, withRedirects())
+      .pipe(header, 'Content-Type', 'text/plain')
+      .pipe(body, 'payload');
+
+    await client.pipe(url, '/form').pipe(method, 'POST').pipe(fetch);
+    await client.pipe(url, '/upload').pipe(method, 'PUT').pipe(fetch);
+
+    const [, result, , storage] = mockFetch.calls;
+    expect(result!.method).toBe('GET');
+    expect(result!.body).toBeUndefined();
+    expect(result!.headers.has('Content-Type')).toBe(false);
+    expect(storage!.method).toBe('PUT');
+    expect(storage!.body).toBe('payload');
+    expect(storage!.headers.get('Content-Type')).toBe('text/plain');
+  });
+
+  it('should strip headers on cross-origin redirects', async () => {
+    const mockFetch = createMockFetch()
+      .get(`${origin}/a`, redirect(302, `${origin}/b`))
+      .get(`${origin}/b`, redirect(302, 'https://cdn.example.net/c'))
+      .get('https://cdn.example.net/c', { status: 200 });
+    await create({ fetch: mockFetch })
+      .pipe(use, withRedirects({ stripHeadersOnCrossOrigin: ['x-api-key'] }))
+      .pipe(url, `${origin}/a`)
+      .pipe(header, 'X-Api-Key', 'secret')
+      .pipe(fetch);
+
+    expect(mockFetch.calls.map((req) => req.headers.get('X-Api-Key'))).toEqual(
+      ['secret', 'secret', null]
+    );
+  });
+
+  it('should keep auth middlewares from restoring credentials', async () => {
+    const mockFetch = createMockFetch()
+      .get(`${origin}/a`, redirect(302, `${origin}/b`))
+      .get(`${origin}/b`, redirect(302, 'https://cdn.example.net/c'))
+      .get('https://cdn.example.net/c', redirect(302, '/d'))
+      .get('https://cdn.example.net/d', { status: 200 });
+    await create({ fetch: mockFetch })
+      .pipe(use, withAuth('token'))
+      .pipe(use, withRetry(1))
+      .pipe(use, withRedirects())
+      .pipe(url, `${origin}/a`)
+      .pipe(fetch);
+
+    expect(
+      mockFetch.calls.map((req) => req.headers.get('Authorization'))
+    ).toEqual(['Bearer token', 'Bearer token', null, null]);
+  });
+
+  it('should stop when onRedirect returns false', async () => {
+    const mockFetch = createMockFetch().get('/a', redirect(302, '/b'));
+    const onRedirect = vi.fn(() => false as const);
+    const res = await create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(use, withRedirects({ onRedirect }))
+      .pipe(url, '/a')
+      .pipe(fetch);
+
+    expect(res.status).toBe(302);
+    expect(getRedirects(res)).toEqual([]);
+    expect(onRedirect).toHaveBeenCalledWith(
+      expect.objectContaining({ to: `${origin}/b`, status: 302 }),
+      expect.anything()
+    );
+  });
+
+  it('should send headers changed by onRedirect', async () => {
+    const mockFetch = createMockFetch()
+      .get('/a', redirect(302, '/b'))
+      .get('/b', { status: 200 });
+    await create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(
+        use,
+        withRedirects({
+          onRedirect: ({ headers }) => headers.set('X-Hop', '1'),
+        })
+      )
+      .pipe(url, '/a')
+      .pipe(fetch);
+
+    expect(mockFetch.calls[1]!.headers.get('X-Hop')).toBe('1');
+  });
+
+  it('should keep the request headers for inner middlewares', async () => {
+    const mockFetch = createMockFetch()
+      .get('/a', redirect(302, '/b'))
+      .get('/b', redirect(302, '/c'))
+      .get('/c', { status: 200 });
+    // Middlewares may spread the headers as a record
+    const hop: MiddlewareFn = (f) => (input, init) =>
+      f(input, {
+        ...init,
+        headers: { ...(init?.headers as Record<string, string>), 'X-Hop': '1' },
+      });
+    await create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(use, withRedirects())
+      .pipe(use, hop)
+      .pipe(header, 'X-Trace', 't1')
+      .pipe(url, '/a')
+      .pipe(fetch);
+
+    expect(mockFetch.calls).toHaveLength(3);
+    for (const req of mockFetch.calls) {
+      expect(req.headers.get('X-Trace')).toBe('t1');
+      expect(req.headers.get('X-Hop')).toBe('1');
+    }
+  });
+
+  it('should throw after too many redirects', async () => {
+    const mockFetch = createMockFetch().get('/loop', redirect(302, '/loop'));
+    const err = await create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(use, withRedirects({ max: 2 }))
+      .pipe(url, '/loop')
+      .pipe(fetch)
+      .then(null, (e) => e);
+
+    expect(err).toBeInstanceOf(RedirectError);
+    expect(err.message).toBe(`Too many redirects: GET ${origin}/loop`);
+    expect(err.redirects).toHaveLength(2);
+    expect(err.status).toBe(302);
+    expect(mockFetch.calls).toHaveLength(3);
+  });
+
+  it('should refuse protocol downgrades unless allowed', async () => {
+    const mockFetch = createMockFetch()
+      .get(`${origin}/a`, redirect(301, 'http://example.com/a'))
+      .get('http://example.com/a', { status: 200 });
+    const client = create({ fetch: mockFetch }).pipe(url, `${origin}/a`);
+
+    await expect(
+      client.pipe(use, withRedirects()).pipe(fetch)
+    ).rejects.toBeInstanceOf(RedirectError);
+    const res = await client
+      .pipe(use, withRedirects({ allowProtocolDowngrade: true }))
+      .pipe(fetch);
+    expect(res.status).toBe(200);
+  });
+
+  it('should pass through requests with their own redirect mode', async () => {
+    const mockFetch = createMockFetch().get('/a', redirect(302, '/b'));
+    const res = await create({
+      baseUrl: origin,
+      fetch: mockFetch,
+      redirect: 'error',
+    })
+      .pipe(use, withRedirects())
+      .pipe(url, '/a')
+      .pipe(fetch);
+
+    expect(res.status).toBe(302);
+    expect(mockFetch.calls[0]!.init.redirect).toBe('error');
+  });
+
+  it('should let the cookie jar see each hop', async () => {
+    const mockFetch = createMockFetch()
+      .get('/login', {
+        status: 302,
+        headers: [
+          ['Location', '/home'],
+          ['Set-Cookie', 'sid=abc'],
+        ],
+      })
+      .get('/home', { status: 200 });
+    const jar = createMemoryCookieJar();
+    await create({ baseUrl: origin, fetch: mockFetch })
+      .pipe(use, withRedirects())
+      .pipe(use, withCookieJar(jar))
+      .pipe(url, '/login')
+      .pipe(fetch);
+
+    expect(mockFetch.calls).toHaveLength(2);
+    expect(mockFetch.calls[1]!.headers.get('Cookie')).toBe('sid=abc');
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import {
+  create,
+  url,
+  method,
+  header,
+  query,
+  jsonBody,
+  binaryBody,
+  fetch,
+  fetchJSON,
+  createMockFetch,
+  recordReplayFetch,
+} from '@/index';
+import type { Fixture, FixtureStore } from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+function createStore() {
+  const files = new Map<string, Fixture[]>();
+  const store: FixtureStore = {
+    read: async (name) => files.get(name),
+    write: async (name, fixtures) => {
+      files.set(name, JSON.parse(JSON.stringify(fixtures)));
+    },
+  };
+  return { files, store };
+}
+
+describe('recordReplayFetch', () => {
+  it('should record and replay responses', async () => {
+    const { files, store } = createStore();
+    const origin = createMockFetch().get('/users/:id', (req) => ({
+      headers: { 'X-Id': req.params.id! },
+      json: { id: req.params.id },
+    }));
+
+    const recorder = create({
+      baseUrl,
+      fetch: recordReplayFetch({ store, mode: 'record', fetch: origin }),
+    });
+    const recorded = await recorder.pipe(url, '/users/1').pipe(fetch);
+    expect(await recorded.json()).toEqual({ id: '1' });
+    expect([...files.keys()]).toEqual(['GET_api.example.com_users_1.json']);
+
+    const player = create({
+      baseUrl,
+      fetch: recordReplayFetch({ store, mode: 'replay' }),
+    });
+    const res = await player.pipe(url, '/users/1').pipe(fetch);
+    expect(res.headers.get('X-Id')).toBe('1');
+    expect(await res.json()).toEqual({ id: '1' });
+    expect(origin.calls).toHaveLength(1);
+
+    await expect(player.pipe(url, '/users/2').pipe(fetch)).rejects.toThrow(
+      `No recorded fixture for GET ${baseUrl}/users/2`
+    );
+  });
+
+  it('should record requests to relative URLs', async () => {
+    const { files, store } = createStore();
+    const origin = createMockFetch().post('/users', { status: 201 });
+
+    const recorder = create({
+      fetch: recordReplayFetch({ store, mode: 'record', fetch: origin }),
+    });
+    await recorder
+      .pipe(url, '/users')
+      .pipe(method, 'POST')
+      .pipe(jsonBody, { a: 1 })
+      .pipe(fetch);
+    const [fixture] = files.get('POST_localhost_users.json')!;
+    expect(fixture!.request).toMatchObject({
+      method: 'POST',
+      url: '/users',
+      body: { encoding: 'utf8', data: '{"a":1}' },
+    });
+
+    const player = create({
+      fetch: recordReplayFetch({ store, mode: 'replay' }),
+    });
+    const res = await player
+      .pipe(url, '/users')
+      .pipe(method, 'POST')
+      .pipe(jsonBody, { a: 1 })
+      .pipe(fetch);
+    expect(res.status).toBe(201);
+  });
+
+  it('should record binary bodies as base64', async () => {
+    const { files, store } = createStore();
+    const bytes = new Uint8Array([0, 255, 128, 1]);
+    const origin = createMockFetch().post('/upload', (req) => ({
+      body: req.body as Uint8Array<ArrayBuffer>,
+    }));
+    const client = create({
+      baseUrl,
+      fetch: recordReplayFetch({ store, fetch: origin }),
+    })
+      .pipe(url, '/upload')
+      .pipe(method, 'POST')
+      .pipe(binaryBody, bytes);
+
+    await client.pipe(fetch);
+    const [fixture] = files.get('POST_api.example.com_upload.json')!;
+    expect(fixture!.request.body).toEqual({
+      encoding: 'base64',
+      data: 'AP+AAQ==',
+    });
+    expect(fixture!.response.body).toEqual(fixture!.request.body);
+
+    const res = await client.pipe(fetch);
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(bytes);
+    expect(origin.calls).toHaveLength(1);
+  });
+
+  it('should replay identical requests in recorded order', async () => {
+    const { store } = createStore();
+    const origin = createMockFetch().get('/counter', [
+      { json: 1 },
+      { json: 2 },
+    ]);
+    const recorder = create({
+      baseUrl,
+      fetch: recordReplayFetch({ store, mode: 'record', fetch: origin }),
+    }).pipe(url, '/counter');
+    await recorder.pipe(fetchJSON);
+    await recorder.pipe(fetchJSON);
+
+    const player = create({
+      baseUrl,
+      fetch: recordReplayFetch({ store, mode: 'replay' }),
+    }).pipe(url, '/counter');
+    expect(await player.pipe(fetchJSON)).toBe(1);
+    expect(await player.pipe(fetchJSON)).toBe(2);
+    expect(await player.pipe(fetchJSON)).toBe(2);
+  });
+
+  it('should match requests by query, headers and body', async () => {
+    const { store } = createStore();
+    const origin = createMockFetch().post('/search', (req) => ({
+      json: String(req.body),
+    }));
+    const recorder = create({
+      baseUrl,
+      fetch: recordReplayFetch({ store, fetch: origin }),
+    })
+      .pipe(url, '/search')
+      .pipe(method, 'POST')
+      .pipe(query, 'b=2&a=1')
+      .pipe(header, 'X-Request-Id', '1');
+    await recorder.pipe(jsonBody, { q: 'x', page: 1 }).pipe(fetch);
+
+    const options = {
+      store,
+      mode: 'replay' as const,
+      ignoreHeaders: ['X-Request-Id'],
+    };
+    const player = create({ baseUrl, fetch: recordReplayFetch(options) })
+      .pipe(url, '/search')
+      .pipe(method, 'POST')
+      .pipe(query, 'a=1&b=2')
+      .pipe(header, 'X-Request-Id', '2');
+
+    expect(
+      await player.pipe(jsonBody, { q: 'x', page: 1 }).pipe(fetchJSON)
+    ).toBe('{"q":"x","page":1}');
+    await expect(
+      player.pipe(jsonBody, { q: 'x', page: 2 }).pipe(fetch)
+    ).rejects.toThrow('No recorded fixture');
+    await expect(
+      create({
+        baseUrl,
+        fetch: recordReplayFetch({ ...options, normalizeQuery: false }),
+      })
+        .pipe(url, '/search')
+        .pipe(method, 'POST')
+        .pipe(query, 'a=1&b=2')
+        .pipe(jsonBody, { q: 'x', page: 1 })
+        .pipe(fetch)
+    ).rejects.toThrow('No recorded fixture');
+
+    const byQuery = create({
+      baseUrl,
+      fetch: recordReplayFetch({
+        ...options,
+        matchBody: (recorded, actual) =>
+          JSON.parse(recorded).q === JSON.parse(actual).q,
+      }),
+    })
+      .pipe(url, '/search')
+      .pipe(method, 'POST')
+      .pipe(query, 'a=1&b=2');
+    expect(
+      await byQuery.pipe(jsonBody, { q: 'x', page: 2 }).pipe(fetchJSON)
+    ).toBe('{"q":"x","page":1}');
+  });
+
+  it('should redact secrets before writing', async () => {
+    const { files, store } = createStore();
+    const origin = createMockFetch().get('/me', {
+      headers: { 'Set-Cookie': 'session=secret' },
+      json: { token: 'secret-token' },
+    });
+    const client = create({
+      baseUrl,
+      fetch: recordReplayFetch({
+        store,
+        fetch: origin,
+        redact: (fixture) => ({
+          ...fixture,
+          response: {
+            ...fixture.response,
+            body: fixture.response.body && {
+              ...fixture.response.body,
+              data: fixture.response.body.data.replace(
+                /secret-token/g,
+                'TOKEN'
+              ),
+            },
+          },
+        }),
+      }),
+    }).pipe(url, '/me');
+
+    // The caller still gets the real response
+    const res = await client
+      .pipe(header, 'Authorization', 'Bearer a')
+      .pipe(fetchJSON);
+    expect(res).toEqual({ token: 'secret-token' });
+
+    const [fixture] = files.get('GET_api.example.com_me.json')!;
+    expect(fixture!.request.headers['authorization']).toBe('[REDACTED]');
+    expect(fixture!.response.headers).toContainEqual([
+      'set-cookie',
+      '[REDACTED]',
+    ]);
+    expect(fixture!.response.body!.data).toBe('{"token":"TOKEN"}');
+
+    // Redacted headers are ignored when matching
+    const replayed = await client
+      .pipe(header, 'Authorization', 'Bearer b')
+      .pipe(fetchJSON);
+    expect(replayed).toEqual({ token: 'TOKEN' });
+    expect(origin.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,277 @@
+import { afterEach, beforeEach, describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  fetch,
+  method,
+  header,
+  body,
+  query,
+  use,
+  withRetry,
+  withAuth,
+  withCookieJar,
+  createMemoryCookieJar,
+  withAwsSigV4,
+  withHmacSignature,
+  sortMiddlewares,
+  createMockFetch,
+} from '@/index';
+import type { MiddlewareFn } from '@/index';
+
+// From the AWS Signature Version 4 test suite
+const aws = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+  region: 'us-east-1',
+  service: 'service',
+};
+const credential = 'AKIDEXAMPLE/20150830/us-east-1/service/aws4_request';
+
+describe('Request signing', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should sign inside retry', () => {
+    const names = sortMiddlewares([
+      withAwsSigV4(aws),
+      withHmacSignature({ keyId: 'k', secret: 's' }),
+      withRetry(1),
+    ]).map((entry) => entry.name);
+    expect(names[0]).toBe('builtin:retry');
+  });
+
+  it('should sign inside the builtins that set headers', () => {
+    const names = sortMiddlewares([
+      withAwsSigV4(aws),
+      withAuth('token'),
+      withCookieJar(createMemoryCookieJar()),
+      withRetry(1),
+    ]).map((entry) => entry.name);
+    expect(names.at(-1)).toBe('builtin:aws-sigv4');
+  });
+
+  describe('withAwsSigV4', () => {
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2015-08-30T12:36:00Z'));
+    });
+
+    it('should sign a GET request', async () => {
+      const mockFetch = createMockFetch().get('/', { status: 204 });
+      await create({ fetch: mockFetch })
+        .pipe(use, withAwsSigV4(aws))
+        .pipe(url, 'https://example.amazonaws.com/')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('X-Amz-Date')).toBe('20150830T123600Z');
+      expect(req.headers.get('Authorization')).toBe(
+        `AWS4-HMAC-SHA256 Credential=${credential}, ` +
+          'SignedHeaders=host;x-amz-date, ' +
+          'Signature=' +
+          '5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+      );
+    });
+
+    it('should sort the query parameters', async () => {
+      const mockFetch = createMockFetch().get('/', { status: 204 });
+      await create({ fetch: mockFetch })
+        .pipe(use, withAwsSigV4(aws))
+        .pipe(url, 'https://example.amazonaws.com/')
+        .pipe(query, 'Param2=value2&Param1=value1')
+        .pipe(fetch);
+
+      expect(mockFetch.calls[0]!.headers.get('Authorization')).toContain(
+        'Signature=' +
+          'b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500'
+      );
+    });
+
+    it('should hash the body', async () => {
+      const mockFetch = createMockFetch().post('/', { status: 204 });
+      await create({ fetch: mockFetch })
+        .pipe(use, withAwsSigV4(aws))
+        .pipe(url, 'https://example.amazonaws.com/')
+        .pipe(method, 'POST')
+        .pipe(header, 'Content-Type', 'application/x-www-form-urlencoded')
+        .pipe(body, 'Param1=value1')
+        .pipe(fetch);
+
+      expect(mockFetch.calls[0]!.headers.get('Authorization')).toBe(
+        `AWS4-HMAC-SHA256 Credential=${credential}, ` +
+          'SignedHeaders=content-type;host;x-amz-date, ' +
+          'Signature=' +
+          'ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a'
+      );
+    });
+
+    it('should set the S3 and session token headers', async () => {
+      const mockFetch = createMockFetch().put('/key', { status: 200 });
+      await create({ fetch: mockFetch })
+        .pipe(
+          use,
+          withAwsSigV4({ ...aws, service: 's3', sessionToken: 'session' })
+        )
+        .pipe(url, 'https://bucket.s3.amazonaws.com/key')
+        .pipe(method, 'PUT')
+        .pipe(body, '')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('X-Amz-Content-SHA256')).toBe(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      );
+      expect(req.headers.get('X-Amz-Security-Token')).toBe('session');
+      expect(req.headers.get('Authorization')).toContain(
+        'SignedHeaders=host;x-amz-content-sha256;x-amz-date;' +
+          'x-amz-security-token, '
+      );
+    });
+
+    it('should sign each attempt with a fresh timestamp', async () => {
+      // WebCrypto resolves outside of the faked timers
+      vi.useFakeTimers({ shouldAdvanceTime: true, advanceTimeDelta: 1 });
+      vi.setSystemTime(new Date('2015-08-30T12:36:00Z'));
+      const mockFetch = createMockFetch().get('/', [
+        () => {
+          vi.setSystemTime(new Date('2015-08-30T12:36:05Z'));
+          return { status: 503 };
+        },
+        { status: 204 },
+      ]);
+      await create({ fetch: mockFetch })
+        .pipe(use, withAwsSigV4(aws))
+        .pipe(use, withRetry({ retries: 1, backoff: () => 0 }))
+        .pipe(url, 'https://example.amazonaws.com/')
+        .pipe(fetch);
+
+      expect(
+        mockFetch.calls.map((req) => req.headers.get('X-Amz-Date'))
+      ).toEqual(['20150830T123600Z', '20150830T123605Z']);
+    });
+  });
+
+  describe('withHmacSignature', () => {
+    // RFC 9421 appendix B.1.5 and B.2.5
+    const secret = Uint8Array.from(
+      atob(
+        'uzvJfB4u3N0Jy4T7NZ75MDVcr8zSTInedJtkgcu46YW4XByzNJjxBdtjUkdJPBtbmHhI' +
+          'Di6pcl8jsasjlTMtDQ=='
+      ),
+      (c) => c.charCodeAt(0)
+    );
+
+    it('should sign the headers set by other middlewares', async () => {
+      const mockFetch = createMockFetch().get('/foo', { status: 200 });
+      // Middlewares may spread the headers as a record
+      const trace: MiddlewareFn = (f) => (input, init) =>
+        f(input, {
+          ...init,
+          headers: {
+            ...(init?.headers as Record<string, string>),
+            'X-Hop': '1',
+          },
+        });
+      await create({ fetch: mockFetch })
+        .pipe(
+          use,
+          withHmacSignature({
+            keyId: 'k',
+            secret,
+            components: ['authorization'],
+          })
+        )
+        .pipe(use, withAuth('token'))
+        .pipe(use, trace)
+        .pipe(url, 'https://example.com/foo')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('Authorization')).toBe('Bearer token');
+      expect(req.headers.get('Signature-Input')).toContain('("authorization")');
+      expect(req.headers.get('Signature')).toMatch(/^sig1=:.+:$/);
+      expect(req.headers.get('X-Hop')).toBe('1');
+    });
+
+    it('should sign the covered components', async () => {
+      vi.setSystemTime(1618884473000);
+      const mockFetch = createMockFetch().post('/foo', { status: 200 });
+      await create({ fetch: mockFetch })
+        .pipe(
+          use,
+          withHmacSignature({
+            keyId: 'test-shared-secret',
+            secret,
+            components: ['date', '@authority', 'content-type'],
+            label: 'sig-b25',
+          })
+        )
+        .pipe(url, 'https://example.com/foo?param=Value&Pet=dog')
+        .pipe(method, 'POST')
+        .pipe(header, 'Date', 'Tue, 20 Apr 2021 02:07:55 GMT')
+        .pipe(header, 'Content-Type', 'application/json')
+        .pipe(body, '{"hello": "world"}')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('Signature-Input')).toBe(
+        'sig-b25=("date" "@authority" "content-type")' +
+          ';created=1618884473;keyid="test-shared-secret"'
+      );
+      expect(req.headers.get('Signature')).toBe(
+        'sig-b25=:pxcQw6G3AjtMBQjwo8XzkZf/bws5LelbaMk5rGIGtE8=:'
+      );
+    });
+
+    it('should set Content-Digest from the body', async () => {
+      vi.setSystemTime(1618884473000);
+      const mockFetch = createMockFetch().post('/foo', { status: 200 });
+      await create({ fetch: mockFetch })
+        .pipe(
+          use,
+          withHmacSignature({
+            keyId: 'k1',
+            secret: 'secret',
+            algorithm: 'hmac-sha512',
+            expiresIn: 300,
+            includeAlgorithm: true,
+          })
+        )
+        .pipe(url, 'https://example.com/foo')
+        .pipe(method, 'POST')
+        .pipe(body, '{"hello": "world"}')
+        .pipe(fetch);
+
+      const req = mockFetch.calls[0]!;
+      expect(req.headers.get('Content-Digest')).toBe(
+        'sha-256=:X48E9qOokqqrvdts8nOJRJN3OWDUoyWxBf7kbu9DBPE=:'
+      );
+      expect(req.headers.get('Signature-Input')).toBe(
+        'sig1=("@method" "@target-uri" "content-digest");created=1618884473' +
+          ';expires=1618884773;keyid="k1";alg="hmac-sha512"'
+      );
+      expect(req.headers.get('Signature')).toMatch(/^sig1=:[\w+/]{86}==:$/);
+    });
+
+    it('should fail on a missing covered header', async () => {
+      const mockFetch = createMockFetch().get('/', { status: 200 });
+      const client = create({ fetch: mockFetch })
+        .pipe(
+          use,
+          withHmacSignature({ keyId: 'k1', secret: 's', components: ['date'] })
+        )
+        .pipe(url, 'https://example.com/');
+
+      await expect(client.pipe(fetch)).rejects.toThrow(
+        'Missing signature component: date'
+      );
+      expect(mockFetch.calls).toHaveLength(0);
+    });
+  });
+});
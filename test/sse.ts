@@ -0,0 +1,291 @@
+import { describe, it, expect } from 'vitest';
+import {
+  create,
+  url,
+  signal,
+  use,
+  withAuth,
+  throwHttpErrors,
+  sse,
+  fetchEventStream,
+  parseEventStream,
+  createMockFetch,
+  ClientError,
+  ServerError,
+  HTTPError,
+} from '@/index';
+import type { SSEMessage } from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+function streamOf(...chunks: (string | Uint8Array)[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+        );
+      }
+      controller.close();
+    },
+  });
+}
+
+function eventStream(...chunks: string[]) {
+  return new Response(streamOf(...chunks), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const result: T[] = [];
+  for await (const item of iterable) result.push(item);
+  return result;
+}
+
+describe('parseEventStream', () => {
+  it('should parse events, multi-line data and comments', async () => {
+    const messages = await collect(
+      parseEventStream(
+        streamOf(
+          ': comment\n',
+          'data: first\ndata:second\n\n',
+          'event: update\nid: 1\ndata: {"a":1}\nunknown: x\n\n'
+        )
+      )
+    );
+
+    expect(messages).toEqual([
+      { event: 'message', data: 'first\nsecond', id: '' },
+      { event: 'update', data: '{"a":1}', id: '1' },
+    ]);
+  });
+
+  it('should handle BOM, CR and CRLF split across chunks', async () => {
+    const messages = await collect(
+      parseEventStream(
+        streamOf(
+          new Uint8Array([0xef, 0xbb, 0xbf]),
+          'data: a\r',
+          '\ndata: b\r\r',
+          'data: c\r\n\r\n'
+        )
+      )
+    );
+
+    expect(messages.map((m) => m.data)).toEqual(['a\nb', 'c']);
+  });
+
+  it('should keep the last event ID and report retry', async () => {
+    const retries: number[] = [];
+    const messages = await collect(
+      parseEventStream(
+        streamOf(
+          'id: 7\ndata: a\n\n',
+          'retry: 500\n\n',
+          'retry: soon\ndata: b\n\n',
+          'data\n\n',
+          'data: incomplete'
+        ),
+        (ms) => retries.push(ms)
+      )
+    );
+
+    expect(messages).toEqual([
+      { event: 'message', data: 'a', id: '7' },
+      { event: 'message', data: 'b', id: '7' },
+      { event: 'message', data: '', id: '7' },
+    ]);
+    expect(retries).toEqual([500]);
+  });
+});
+
+describe('fetchEventStream', () => {
+  it('should send event stream headers through middlewares', async () => {
+    const mockFetch = createMockFetch().get('/events', () =>
+      eventStream('data: hi\n\n')
+    );
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(use, withAuth('token'))
+      .pipe(url, '/events')
+      .pipe(sse, { reconnect: false });
+
+    const messages = await collect(client.pipe(fetchEventStream));
+
+    expect(messages.map((m) => m.data)).toEqual(['hi']);
+    const { headers } = mockFetch.calls[0]!;
+    expect(headers.get('Accept')).toBe('text/event-stream');
+    expect(headers.get('Cache-Control')).toBe('no-cache');
+    expect(headers.get('Authorization')).toBe('Bearer token');
+  });
+
+  it('should parse data with the inferred type', async () => {
+    const mockFetch = createMockFetch().get('/ticks', () =>
+      eventStream('data: {"price":1}\n\n', 'data: {"price":2}\n\n')
+    );
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(url, '/ticks')
+      .pipe(sse, {
+        reconnect: false,
+        parse: (data: string): { price: number } => JSON.parse(data),
+      });
+
+    const prices: number[] = [];
+    for await (const message of client.pipe(fetchEventStream)) {
+      const _type: SSEMessage<{ price: number }> = message;
+      prices.push(message.data.price);
+    }
+    expect(prices).toEqual([1, 2]);
+  });
+
+  it('should reconnect with Last-Event-ID and server retry', async () => {
+    const mockFetch = createMockFetch().get('/events', [
+      eventStream('retry: 1\nid: 1\ndata: a\n\n'),
+      { error: true },
+      eventStream('id: 2\ndata: b\n\n'),
+      new Response(null, { status: 204 }),
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/events');
+
+    const messages = await collect(client.pipe(fetchEventStream));
+
+    expect(messages.map((m) => m.data)).toEqual(['a', 'b']);
+    expect(
+      mockFetch.calls.map((req) => req.headers.get('Last-Event-ID'))
+    ).toEqual([null, '1', '1', '2']);
+  });
+
+  it('should resume from the ID of an event without data', async () => {
+    const mockFetch = createMockFetch().get('/events', [
+      eventStream('retry: 1\nid: 1\ndata: a\n\nid: 2\n\n'),
+      eventStream('data: b\n\n'),
+      new Response(null, { status: 204 }),
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/events');
+
+    const messages = await collect(client.pipe(fetchEventStream));
+
+    expect(messages.map((m) => m.data)).toEqual(['a', 'b']);
+    expect(
+      mockFetch.calls.map((req) => req.headers.get('Last-Event-ID'))
+    ).toEqual([null, '2', '2']);
+  });
+
+  it('should reconnect after network errors of throwHttpErrors', async () => {
+    const mockFetch = createMockFetch().get('/events', [
+      eventStream('retry: 1\ndata: a\n\n'),
+      { error: true },
+      eventStream('data: b\n\n'),
+      new Response(null, { status: 204 }),
+    ]);
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(url, '/events')
+      .pipe(throwHttpErrors);
+
+    const messages = await collect(client.pipe(fetchEventStream));
+
+    expect(messages.map((m) => m.data)).toEqual(['a', 'b']);
+    expect(mockFetch.calls).toHaveLength(4);
+  });
+
+  it('should give up after maxRetries consecutive failures', async () => {
+    const mockFetch = createMockFetch().get('/events', { error: true });
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(url, '/events')
+      .pipe(sse, { retry: 1, maxRetries: 2 });
+
+    await expect(collect(client.pipe(fetchEventStream))).rejects.toThrow(
+      'fetch failed'
+    );
+    expect(mockFetch.calls).toHaveLength(3);
+  });
+
+  it('should fail on error status or wrong content type', async () => {
+    const mockFetch = createMockFetch()
+      .get('/missing', { status: 404 })
+      .get('/json', { json: {} });
+    const client = create({ baseUrl, fetch: mockFetch });
+
+    await expect(
+      collect(client.pipe(url, '/missing').pipe(fetchEventStream))
+    ).rejects.toBeInstanceOf(ClientError);
+    const err = await collect(
+      client.pipe(url, '/json').pipe(fetchEventStream)
+    ).then(null, (e) => e);
+    expect(err).toBeInstanceOf(HTTPError);
+    expect(err.message).toBe(
+      "Expected a text/event-stream response but got 'application/json'"
+    );
+    expect(mockFetch.calls).toHaveLength(2);
+  });
+
+  it('should release the body of an error response', async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const mockFetch = createMockFetch().get(
+      '/events',
+      () => new Response(body, { status: 503 })
+    );
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/events');
+
+    await expect(collect(client.pipe(fetchEventStream))).rejects.toBeInstanceOf(
+      ServerError
+    );
+    expect(cancelled).toBe(true);
+    expect(mockFetch.calls).toHaveLength(1);
+  });
+
+  it('should close the connection when the loop breaks', async () => {
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: a\n\n'));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const mockFetch = createMockFetch().get(
+      '/events',
+      () =>
+        new Response(body, {
+          headers: { 'Content-Type': 'text/event-stream' },
+        })
+    );
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/events');
+
+    for await (const message of client.pipe(fetchEventStream)) {
+      expect(message.data).toBe('a');
+      break;
+    }
+    expect(cancelled).toBe(true);
+  });
+
+  it('should stop when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const mockFetch = createMockFetch().get('/events', () =>
+      eventStream('data: a\n\n')
+    );
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(url, '/events')
+      .pipe(signal, controller.signal)
+      .pipe(sse, { retry: 1000 });
+
+    const messages: string[] = [];
+    await expect(
+      (async () => {
+        for await (const message of client.pipe(fetchEventStream)) {
+          messages.push(message.data);
+          controller.abort(new Error('stopped'));
+        }
+      })()
+    ).rejects.toThrow('stopped');
+    expect(messages).toEqual(['a']);
+    expect(mockFetch.calls).toHaveLength(1);
+  });
+});
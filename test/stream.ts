@@ -0,0 +1,153 @@
+import { describe, it, vi, expect } from 'vitest';
+import {
+  create,
+  url,
+  json,
+  ndjson,
+  fetchStream,
+  parseNDJSON,
+  createMockFetch,
+  NDJSONParseError,
+  ServerError,
+} from '@/index';
+
+const baseUrl = 'https://api.example.com';
+
+function streamOf(...chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const result: T[] = [];
+  for await (const item of iterable) result.push(item);
+  return result;
+}
+
+describe('parseNDJSON', () => {
+  it('should parse lines split across chunks', async () => {
+    const items = await collect(
+      parseNDJSON(streamOf('{"a":1}\n{"a"', ':2}\r\n\n', '3\n"x"'))
+    );
+    expect(items).toEqual([{ a: 1 }, { a: 2 }, 3, 'x']);
+  });
+
+  it('should report the failing line number', async () => {
+    const err = await collect(
+      parseNDJSON(streamOf('1\n\n2\n{oops}\n4\n'))
+    ).then(null, (e) => e);
+
+    expect(err).toBeInstanceOf(NDJSONParseError);
+    expect(err.lineNumber).toBe(4);
+    expect(err.line).toBe('{oops}');
+    expect(err.message).toMatch(/^Failed to parse line 4: /);
+    expect(err.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it('should guard against oversized lines', async () => {
+    const err = await collect(
+      parseNDJSON(streamOf('1\n"abc', 'def', 'ghi"'), { maxLineLength: 8 })
+    ).then(null, (e) => e);
+
+    expect(err).toBeInstanceOf(NDJSONParseError);
+    expect(err.lineNumber).toBe(2);
+    expect(err.message).toBe(
+      'Line 2 exceeds the maximum length of 8 characters'
+    );
+  });
+
+  it('should use a custom parser', async () => {
+    const items = await collect(
+      parseNDJSON(streamOf('a\nb\n'), { parse: (line) => line.toUpperCase() })
+    );
+    expect(items).toEqual(['A', 'B']);
+  });
+});
+
+describe('fetchStream', () => {
+  it('should yield items incrementally', async () => {
+    let pull!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        pull = controller;
+      },
+    });
+    const mockFetch = createMockFetch().get('/logs', () => new Response(body));
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/logs');
+
+    const stream = client.pipe(fetchStream<{ level: string }>);
+    const first = stream.next();
+    pull.enqueue(new TextEncoder().encode('{"level":"info"}\n{"lev'));
+    expect((await first).value).toEqual({ level: 'info' });
+
+    pull.enqueue(new TextEncoder().encode('el":"warn"}\n'));
+    pull.close();
+    expect(await collect(stream)).toEqual([{ level: 'warn' }]);
+    expect(mockFetch.calls[0]!.headers.get('Accept')).toBe(
+      'application/x-ndjson'
+    );
+  });
+
+  it('should use the options set by ndjson', async () => {
+    const mockFetch = createMockFetch().get('/logs', () =>
+      new Response('"long line"\n')
+    );
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(url, '/logs')
+      .pipe(ndjson, { maxLineLength: 4 });
+
+    await expect(collect(client.pipe(fetchStream))).rejects.toBeInstanceOf(
+      NDJSONParseError
+    );
+  });
+
+  it('should fail on error status', async () => {
+    const mockFetch = createMockFetch().get('/logs', { status: 500 });
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/logs');
+
+    await expect(collect(client.pipe(fetchStream))).rejects.toBeInstanceOf(
+      ServerError
+    );
+  });
+
+  it('should cancel the body of an error response', async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({ cancel });
+    const mockFetch = createMockFetch().get(
+      '/logs',
+      () => new Response(body, { status: 500 })
+    );
+    const client = create({ baseUrl, fetch: mockFetch }).pipe(url, '/logs');
+
+    await expect(collect(client.pipe(fetchStream))).rejects.toBeInstanceOf(
+      ServerError
+    );
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('should bypass a data reader', async () => {
+    let pull!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        pull = controller;
+      },
+    });
+    const mockFetch = createMockFetch().get('/logs', () => new Response(body));
+    const client = create({ baseUrl, fetch: mockFetch })
+      .pipe(json)
+      .pipe(url, '/logs');
+
+    const stream = client.pipe(fetchStream);
+    const first = stream.next();
+    pull.enqueue(new TextEncoder().encode('{"level":"info"}\n'));
+    expect((await first).value).toEqual({ level: 'info' });
+
+    pull.close();
+    expect(await collect(stream)).toEqual([]);
+  });
+});
@@ -6,6 +6,9 @@ import {
   asNotRetryError,
   isNotRetryError,
   createQuery,
+  fillPathParams,
+  serializeQuery,
+  mergeHeaders,
 } from '@/util';
 import { notRetryErrorSymbol } from '@/constants';
 
@@ -260,4 +263,108 @@ describe('Util Functions', () => {
       expect(query.get('page')).toBe('1');
     });
   });
+
+  describe('fillPathParams', () => {
+    it('should substitute and encode params', () => {
+      expect(
+        fillPathParams('/users/:id/files/:name', { id: 1, name: 'a b.txt' })
+      ).toBe('/users/1/files/a%20b.txt');
+    });
+
+    it('should leave params without a value untouched', () => {
+      expect(fillPathParams('/users/:id', {})).toBe('/users/:id');
+    });
+
+    it('should not touch scheme and port separators', () => {
+      expect(fillPathParams('http://x.y:8080/:id', { id: 'a' })).toBe(
+        'http://x.y:8080/a'
+      );
+    });
+  });
+
+  describe('mergeHeaders', () => {
+    it('should set and remove headers case-insensitively', () => {
+      expect(
+        mergeHeaders(
+          { Accept: 'text/plain', 'X-Id': '1', 'X-Keep': 'k' },
+          { accept: 'application/json', 'x-id': null }
+        )
+      ).toEqual({ 'X-Keep': 'k', accept: 'application/json' });
+    });
+
+    it('should convert Headers and entries to a record', () => {
+      expect(
+        mergeHeaders(new Headers({ 'X-A': '1' }), { 'X-B': '2' })
+      ).toEqual({ 'x-a': '1', 'X-B': '2' });
+      expect(mergeHeaders([['X-A', '1']])).toEqual({ 'x-a': '1' });
+      expect(mergeHeaders(undefined)).toEqual({});
+    });
+  });
+
+  describe('serializeQuery', () => {
+    const date = new Date('2024-01-02T03:04:05.000Z');
+
+    it('should serialize primitives', () => {
+      expect(
+        serializeQuery({ s: 'x', n: 1, b: false, d: date, u: undefined })
+      ).toEqual([
+        ['s', 'x'],
+        ['n', '1'],
+        ['b', 'false'],
+        ['d', '2024-01-02T03:04:05.000Z'],
+      ]);
+    });
+
+    it('should serialize arrays in each format', () => {
+      const obj = { a: [1, 2] };
+      expect(serializeQuery(obj)).toEqual([
+        ['a', '1'],
+        ['a', '2'],
+      ]);
+      expect(serializeQuery(obj, { arrayFormat: 'brackets' })).toEqual([
+        ['a[]', '1'],
+        ['a[]', '2'],
+      ]);
+      expect(serializeQuery(obj, { arrayFormat: 'comma' })).toEqual([
+        ['a', '1,2'],
+      ]);
+      expect(serializeQuery(obj, { arrayFormat: 'index' })).toEqual([
+        ['a[0]', '1'],
+        ['a[1]', '2'],
+      ]);
+    });
+
+    it('should serialize nested objects', () => {
+      const obj = { f: { x: 1, y: { z: true } } };
+      expect(serializeQuery(obj)).toEqual([
+        ['f[x]', '1'],
+        ['f[y][z]', 'true'],
+      ]);
+      expect(serializeQuery(obj, { nested: 'dots' })).toEqual([
+        ['f.x', '1'],
+        ['f.y.z', 'true'],
+      ]);
+    });
+
+    it('should use indices for arrays of objects', () => {
+      expect(serializeQuery({ a: [{ id: 1 }, { id: 2 }] })).toEqual([
+        ['a[0][id]', '1'],
+        ['a[1][id]', '2'],
+      ]);
+    });
+
+    it('should handle null and empty values', () => {
+      const obj = { n: null, e: '', arr: [] };
+      expect(serializeQuery(obj)).toEqual([
+        ['n', ''],
+        ['e', ''],
+      ]);
+      expect(serializeQuery(obj, { skipNull: true, skipEmpty: true })).toEqual(
+        []
+      );
+      expect(
+        serializeQuery({ a: [1, null] }, { arrayFormat: 'comma', skipNull: true })
+      ).toEqual([['a', '1']]);
+    });
+  });
 });